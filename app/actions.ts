@@ -1,9 +1,42 @@
 'use server';
 
-import { generateNFT, DEFAULT_CONFIG } from '@/utils/nftGenerator';
+import { generateNFT, DEFAULT_CONFIG, getImagesForLayer, previewNFT } from '@/utils/nftGenerator';
+import type { NFTConfig, NFTMetadata } from '@/utils/nftGenerator';
 import { getLastNFTNumber } from '@/utils/minioClient';
-import { uploadNFTToMinio } from '@/utils/minioClient';
+import { uploadNFTToMinio, downloadFromMinio, uploadBufferToMinio } from '@/utils/minioClient';
 import { getMinioConfig, validateMinioConfig } from '@/utils/config';
+import { getDistributionReport } from '@/utils/traitDistribution';
+import type { DistributionReport } from '@/utils/traitDistribution';
+import { COLLECTION_FILE, getCollectionSeed } from '@/utils/random';
+import { createCollectionFile, getStoragePrefix, loadCollectionConfig, saveCollectionFile } from '@/utils/collectionConfig';
+import { verifyNFT } from '@/utils/verification';
+import { generateRange } from '@/utils/batchGenerator';
+import { lintLayerAssets } from '@/utils/assetLint';
+import type { AssetLintReport } from '@/utils/assetLint';
+import {
+  computeRarity,
+  loadLocalMetadata,
+  loadMinioMetadata,
+  saveRarityReport,
+  writeRarityToLocalMetadata,
+  writeRarityToMinioMetadata
+} from '@/utils/rarity';
+import type { RarityReport } from '@/utils/rarity';
+import {
+  createProvenance,
+  deriveStartingIndex,
+  getFinalTokenId,
+  layoutFinalCollection,
+  loadProvenance,
+  saveProvenance,
+  verifyProvenance
+} from '@/utils/provenance';
+import type { ProvenanceRecord, ProvenanceVerification } from '@/utils/provenance';
+import { addRevealRange, getCollectionPrefix, loadRevealState, removeRevealRange, saveRevealState } from '@/utils/reveal';
+import type { RevealState } from '@/utils/reveal';
+import { freezeToken, getHistoryKey, loadTokenHistory, rerollToken, rollbackToken } from '@/utils/tokenHistory';
+import type { TokenHistory, TokenHistoryChange } from '@/utils/tokenHistory';
+import type { VerificationResult } from '@/utils/verification';
 import path from 'path';
 import fs from 'fs-extra';
 
@@ -36,6 +69,86 @@ export interface GenerationResult {
   fromBlockchain?: boolean;
 }
 
+export interface DistributionResult {
+  success: boolean;
+  message: string;
+  report?: DistributionReport;
+  errorDetails?: string;
+}
+
+export interface VerifyResult {
+  success: boolean;
+  message: string;
+  verification?: VerificationResult;
+  errorDetails?: string;
+}
+
+export interface BatchGenerationResult {
+  success: boolean;
+  message: string;
+  generated?: number[];
+  skipped?: number[];
+  failed?: Array<{ tokenId: number; error: string }>;
+  minioStatus?: 'success' | 'failed' | 'skipped';
+  errorDetails?: string;
+}
+
+export interface AssetLintResult {
+  success: boolean;
+  message: string;
+  report?: AssetLintReport;
+  errorDetails?: string;
+}
+
+export interface RarityResult {
+  success: boolean;
+  message: string;
+  report?: RarityReport;
+  reportPath?: string;
+  errorDetails?: string;
+}
+
+export interface ProvenanceResult {
+  success: boolean;
+  message: string;
+  provenance?: ProvenanceRecord;
+  verification?: ProvenanceVerification;
+  minioStatus?: 'success' | 'failed' | 'skipped';
+  errorDetails?: string;
+}
+
+export interface RevealResult {
+  success: boolean;
+  message: string;
+  state?: RevealState;
+  errorDetails?: string;
+}
+
+export interface PreviewOptionsResult {
+  success: boolean;
+  message: string;
+  collections?: string[];  // Folder names of the existing collections, the default output is ""
+  layers?: Array<{ name: string; traits: string[]; linkedTo?: string }>;
+  errorDetails?: string;
+}
+
+export interface PreviewResult {
+  success: boolean;
+  message: string;
+  dataUrl?: string;
+  metadata?: NFTMetadata;
+  dnaTaken?: boolean;
+  errorDetails?: string;
+}
+
+export interface TokenHistoryResult {
+  success: boolean;
+  message: string;
+  history?: TokenHistory;
+  minioStatus?: 'success' | 'failed' | 'skipped';
+  errorDetails?: string;
+}
+
 // Add this function to generate MinIO URLs
 function getMinioUrls(
   config: ReturnType<typeof getMinioConfig>,
@@ -53,6 +166,30 @@ function getMinioUrls(
   };
 }
 
+/**
+ * Build the generation config of a collection from its collection.json, or the default config for the default output
+ * 
+ * @param createSeed - Create the collection seed when it has none yet
+ * @param readOnly - Leave collection.json untouched, even for a legacy collection that still needs migrating
+ */
+async function getCollectionConfig(folderName: string, createSeed: boolean = false, readOnly: boolean = false): Promise<NFTConfig> {
+  const minioConfig = getMinioConfig();
+  const config = folderName
+    ? await loadCollectionConfig(folderName, DEFAULT_CONFIG, !readOnly)
+    : { ...DEFAULT_CONFIG, outputDir: path.join(process.cwd(), 'public/output') };
+  
+  return {
+    ...config,
+    seed: await getCollectionSeed(config.outputDir, createSeed),
+    // Absolute image URLs, pointing where the files are uploaded
+    ...(validateMinioConfig(minioConfig) ? {
+      s3Endpoint: minioConfig.endPoint,
+      // Image URLs are the bucket followed by the object key, which starts with the storage prefix
+      s3BucketName: folderName ? `${minioConfig.bucketName}/${getStoragePrefix(folderName)}` : minioConfig.bucketName
+    } : {})
+  };
+}
+
 /**
  * Generate a new dog NFT with timestamp and upload to MinIO
  */
@@ -174,9 +311,11 @@ export async function generateAndUploadNFT(): Promise<GenerationResult> {
     }
     
     // Create a custom config with S3 endpoint information if available
+    const outputDir = path.join(process.cwd(), 'public/output');
     const customConfig = {
       ...DEFAULT_CONFIG,
-      outputDir: path.join(process.cwd(), 'public/output'),
+      outputDir,
+      seed: await getCollectionSeed(outputDir),
       // Only add these if config is valid
       ...(configValid ? {
         s3Endpoint: minioConfig.endPoint,
@@ -185,7 +324,7 @@ export async function generateAndUploadNFT(): Promise<GenerationResult> {
     };
     
     // Generate the NFT with the custom config
-    const { imagePath, metadataPath } = await generateNFT(nextTokenId, customConfig);
+    const { imagePath, metadataPath, renditionPaths } = await generateNFT(nextTokenId, customConfig);
     
     // Log the metadata content for debugging
     try {
@@ -201,7 +340,7 @@ export async function generateAndUploadNFT(): Promise<GenerationResult> {
     if (configValid) {
       try {
         console.log('Attempting to upload to MinIO...');
-        const uploaded = await uploadNFTToMinio(minioConfig, imagePath, metadataPath);
+        const uploaded = await uploadNFTToMinio(minioConfig, imagePath, metadataPath, renditionPaths);
         minioStatus = uploaded ? 'success' : 'failed';
         
         if (!uploaded) {
@@ -281,19 +420,24 @@ export async function createNewCollection(collectionName: string): Promise<Gener
     
     console.log(`Created new collection directory: ${baseOutputDir}`);
     
-    // Create customized config for this collection
-    const collectionConfig = {
-      ...DEFAULT_CONFIG,
-      collectionName: collectionName,
-      description: `${collectionName} - A unique NFT collection`,
-      outputDir: baseOutputDir
-    };
+    // Start the collection.json from the default config, unless an earlier attempt already wrote one
+    const collectionFilePath = path.join(baseOutputDir, COLLECTION_FILE);
+    const existingFile = (await fs.pathExists(collectionFilePath)) ? await fs.readJson(collectionFilePath) : {};
+    if (!existingFile.name) {
+      await saveCollectionFile(
+        folderName,
+        createCollectionFile(collectionName, `${collectionName} - A unique NFT collection`, DEFAULT_CONFIG)
+      );
+      console.log(`Wrote collection config: ${collectionFilePath}`);
+    }
+    
+    const collectionConfig = await getCollectionConfig(folderName, true);
     
     // First NFT in the collection is always #1
     const tokenId = 1;
     
     // Generate the NFT with custom config and output location
-    const { imagePath, metadataPath } = await generateNFT(tokenId, collectionConfig);
+    const { imagePath, metadataPath, renditionPaths } = await generateNFT(tokenId, collectionConfig);
     
     // Log the metadata content for debugging
     try {
@@ -318,14 +462,8 @@ export async function createNewCollection(collectionName: string): Promise<Gener
       try {
         console.log(`Attempting to upload to MinIO in collection: ${folderName}...`);
         
-        // Modify MinIO upload to use collection-specific paths
-        const customMinioConfig = {
-          ...minioConfig,
-          // Append collection name to bucket path or use subfolder
-          bucketName: `${minioConfig.bucketName}/collections/${folderName}`
-        };
-        
-        const uploaded = await uploadNFTToMinio(customMinioConfig, imagePath, metadataPath);
+        // Store the files under the collection's storage prefix
+        const uploaded = await uploadNFTToMinio(minioConfig, imagePath, metadataPath, renditionPaths, getCollectionPrefix(folderName));
         minioStatus = uploaded ? 'success' : 'failed';
         
         if (!uploaded) {
@@ -393,21 +531,11 @@ export async function generateNFTForCollection(folderName: string): Promise<Gene
     // Validate the configuration
     const configValid = validateMinioConfig(minioConfig);
     
-    // Create customized config for this collection
-    const collectionConfig = {
-      ...DEFAULT_CONFIG,
-      collectionName: folderName.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase()), // Convert back to title case
-      description: `Part of the ${folderName.replace(/-/g, ' ')} collection`,
-      outputDir: baseOutputDir,
-      // Only add these if config is valid
-      ...(configValid ? {
-        s3Endpoint: minioConfig.endPoint,
-        s3BucketName: minioConfig.bucketName
-      } : {})
-    };
+    // The collection's own config, from its collection.json
+    const collectionConfig = await getCollectionConfig(folderName, true);
     
     // Generate the NFT with custom config and output location
-    const { imagePath, metadataPath } = await generateNFT(nextTokenId, collectionConfig);
+    const { imagePath, metadataPath, renditionPaths } = await generateNFT(nextTokenId, collectionConfig);
     
     // Log the metadata content for debugging
     try {
@@ -428,14 +556,8 @@ export async function generateNFTForCollection(folderName: string): Promise<Gene
       try {
         console.log(`Attempting to upload to MinIO in collection: ${folderName}...`);
         
-        // Modify MinIO upload to use collection-specific paths
-        const customMinioConfig = {
-          ...minioConfig,
-          // Append collection name to bucket path or use subfolder
-          bucketName: `${minioConfig.bucketName}/collections/${folderName}`
-        };
-        
-        const uploaded = await uploadNFTToMinio(customMinioConfig, imagePath, metadataPath);
+        // Store the files under the collection's storage prefix
+        const uploaded = await uploadNFTToMinio(minioConfig, imagePath, metadataPath, renditionPaths, getCollectionPrefix(folderName));
         minioStatus = uploaded ? 'success' : 'failed';
         
         if (!uploaded) {
@@ -458,7 +580,7 @@ export async function generateNFTForCollection(folderName: string): Promise<Gene
     
     return {
       success: true,
-      message: `NFT #${nextTokenId} for collection "${folderName}" generated ${localMessage}!`,
+      message: `NFT #${nextTokenId} for collection "${collectionConfig.collectionName}" generated ${localMessage}!`,
       tokenId: nextTokenId,
       imageUrl: `/collections/${folderName}/images/${nextTokenId}.png`,
       minioStatus,
@@ -473,4 +595,794 @@ export async function generateNFTForCollection(folderName: string): Promise<Gene
       errorDetails: error instanceof Error ? error.stack : undefined
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Compare expected and actual trait distribution for a collection
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ */
+export async function getCollectionDistribution(folderName: string = ''): Promise<DistributionResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    
+    if (!fs.existsSync(baseOutputDir)) {
+      return {
+        success: false,
+        message: `Collection "${folderName}" does not exist.`,
+        errorDetails: `Directory not found: ${baseOutputDir}`
+      };
+    }
+    
+    const report = await getDistributionReport(await getCollectionConfig(folderName));
+    
+    return {
+      success: true,
+      message: `Distribution report built from ${report.totalTokens} tokens`,
+      report
+    };
+  } catch (error) {
+    console.error('Error building distribution report:', error);
+    return {
+      success: false,
+      message: `Error building distribution report: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Re-render a token from its collection seed and compare it with the stored image
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param tokenId - The token to verify
+ * @param fromMinio - Compare against the image stored in MinIO instead of the local copy
+ */
+export async function verifyCollectionNFT(
+  folderName: string,
+  tokenId: number,
+  fromMinio: boolean = false
+): Promise<VerifyResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    
+    if (!fs.existsSync(baseOutputDir)) {
+      return {
+        success: false,
+        message: `Collection "${folderName}" does not exist.`,
+        errorDetails: `Directory not found: ${baseOutputDir}`
+      };
+    }
+    
+    let storedImage: Buffer | undefined;
+    
+    if (fromMinio) {
+      const minioConfig = getMinioConfig();
+      
+      if (!validateMinioConfig(minioConfig)) {
+        return {
+          success: false,
+          message: 'MinIO is not configured, cannot fetch the stored image.'
+        };
+      }
+      
+      const imageKey = `${getCollectionPrefix(folderName || undefined)}images/${tokenId}.png`;
+      const downloaded = await downloadFromMinio(minioConfig, imageKey);
+      
+      if (!downloaded) {
+        return {
+          success: false,
+          message: `Image for NFT #${tokenId} not found in MinIO.`,
+          errorDetails: `Missing object: ${minioConfig.bucketName}/${imageKey}`
+        };
+      }
+      storedImage = downloaded;
+    }
+    
+    const verification = await verifyNFT(tokenId, await getCollectionConfig(folderName), storedImage);
+    
+    return {
+      success: true,
+      message: verification.message,
+      verification
+    };
+  } catch (error) {
+    console.error('Error verifying NFT:', error);
+    return {
+      success: false,
+      message: `Error verifying NFT: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Generate a whole range of tokens for an existing collection using worker threads
+ * 
+ * Interrupted runs pick up where they left off when called again with the same range.
+ * 
+ * @param folderName - The folder name of the collection
+ * @param from - First token ID of the range
+ * @param to - Last token ID of the range (inclusive)
+ */
+export async function generateCollectionRange(folderName: string, from: number, to: number): Promise<BatchGenerationResult> {
+  try {
+    const baseOutputDir = path.join(process.cwd(), 'public/collections', folderName);
+    
+    if (!fs.existsSync(baseOutputDir)) {
+      return {
+        success: false,
+        message: `Collection "${folderName}" does not exist.`,
+        errorDetails: `Directory not found: ${baseOutputDir}`
+      };
+    }
+    
+    const minioConfig = getMinioConfig();
+    const configValid = validateMinioConfig(minioConfig);
+    
+    const collectionConfig = await getCollectionConfig(folderName, true);
+    
+    const result = await generateRange(from, to, collectionConfig, {
+      onProgress: ({ completed, failed, total }) => {
+        console.log(`Batch progress for ${folderName}: ${completed}/${total} done, ${failed} failed`);
+      }
+    });
+    
+    let minioStatus: 'success' | 'failed' | 'skipped' = configValid ? 'success' : 'skipped';
+    
+    // Upload one token at a time, the MinIO client doesn't benefit from the worker pool
+    if (configValid) {
+      const prefix = getCollectionPrefix(folderName);
+      
+      for (const token of result.generated) {
+        try {
+          const uploaded = await uploadNFTToMinio(minioConfig, token.imagePath, token.metadataPath, token.renditionPaths, prefix);
+          if (!uploaded) {
+            minioStatus = 'failed';
+          }
+        } catch (uploadError) {
+          console.error(`Error uploading NFT #${token.tokenId} to MinIO:`, uploadError);
+          minioStatus = 'failed';
+        }
+      }
+    }
+    
+    const generated = result.generated.map(token => token.tokenId).sort((a, b) => a - b);
+    
+    return {
+      success: result.failed.length === 0,
+      message: `Generated ${generated.length} NFTs for collection "${folderName}" ` +
+        `(${result.skipped.length} already done, ${result.failed.length} failed)`,
+      generated,
+      skipped: result.skipped,
+      failed: result.failed,
+      minioStatus,
+      errorDetails: minioStatus === 'failed' ? 'Some MinIO uploads failed. Check server logs for details.' : undefined
+    };
+  } catch (error) {
+    console.error('Error generating NFT range:', error);
+    return {
+      success: false,
+      message: `Error generating NFT range: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Check the layer assets for problems before generating anything
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ */
+export async function lintCollectionAssets(folderName: string = ''): Promise<AssetLintResult> {
+  try {
+    const report = await lintLayerAssets(await getCollectionConfig(folderName, false, true));
+    
+    return {
+      success: report.errors === 0,
+      message: `Checked ${report.checkedFiles} layer assets of "${folderName || 'default'}": ${report.errors} errors, ${report.warnings} warnings`,
+      report
+    };
+  } catch (error) {
+    console.error('Error linting layer assets:', error);
+    return {
+      success: false,
+      message: `Error linting layer assets: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Score and rank every token of a collection by rarity and save the report
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param options.source - Read the metadata from the local output or from MinIO
+ * @param options.writeBack - Also write rarity_score/rarity_rank attributes into the metadata
+ */
+export async function computeCollectionRarity(
+  folderName: string = '',
+  options: { source?: 'local' | 'minio'; writeBack?: boolean } = {}
+): Promise<RarityResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    const source = options.source || 'local';
+    const minioConfig = getMinioConfig();
+    const metadataPrefix = `${getCollectionPrefix(folderName || undefined)}metadata/`;
+    
+    if (source === 'minio' && !validateMinioConfig(minioConfig)) {
+      return {
+        success: false,
+        message: 'MinIO is not configured, cannot read the collection metadata.'
+      };
+    }
+    
+    const metadata = source === 'minio'
+      ? await loadMinioMetadata(minioConfig, metadataPrefix)
+      : await loadLocalMetadata(baseOutputDir);
+    
+    if (Object.keys(metadata).length === 0) {
+      return {
+        success: false,
+        message: `No metadata found for collection "${folderName || 'default'}".`
+      };
+    }
+    
+    const report = computeRarity(metadata);
+    const reportPath = await saveRarityReport(baseOutputDir, report);
+    
+    if (options.writeBack) {
+      if (source === 'minio') {
+        const failed = await writeRarityToMinioMetadata(minioConfig, metadataPrefix, metadata, report);
+        if (failed > 0) {
+          return {
+            success: false,
+            message: `Ranked ${report.totalTokens} tokens but ${failed} metadata uploads failed`,
+            report,
+            reportPath,
+            errorDetails: 'Some MinIO uploads failed. Check server logs for details.'
+          };
+        }
+      } else {
+        await writeRarityToLocalMetadata(baseOutputDir, metadata, report);
+      }
+    }
+    
+    return {
+      success: true,
+      message: `Ranked ${report.totalTokens} tokens by rarity` + (options.writeBack ? ' and updated their metadata' : ''),
+      report,
+      reportPath
+    };
+  } catch (error) {
+    console.error('Error computing rarity:', error);
+    return {
+      success: false,
+      message: `Error computing rarity: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Hash every pre-generated image of a collection and publish the provenance hash
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ */
+export async function createCollectionProvenance(folderName: string = ''): Promise<ProvenanceResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    
+    if (!fs.existsSync(baseOutputDir)) {
+      return {
+        success: false,
+        message: `Collection "${folderName}" does not exist.`,
+        errorDetails: `Directory not found: ${baseOutputDir}`
+      };
+    }
+    
+    const provenance = await createProvenance(await getCollectionConfig(folderName));
+    await saveProvenance(baseOutputDir, provenance);
+    
+    return {
+      success: true,
+      message: `Provenance hash of ${provenance.totalTokens} tokens: ${provenance.provenanceHash}`,
+      provenance
+    };
+  } catch (error) {
+    console.error('Error creating provenance:', error);
+    return {
+      success: false,
+      message: `Error creating provenance: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Fix the starting index of a collection after sell-out and lay out the final metadata
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param source - Block hash ("0x...") or seed the starting index is derived from
+ */
+export async function finalizeCollectionLayout(folderName: string, source: string): Promise<ProvenanceResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    const provenance = await loadProvenance(baseOutputDir);
+    
+    if (!provenance) {
+      return {
+        success: false,
+        message: `Collection "${folderName || 'default'}" has no published provenance yet.`
+      };
+    }
+    if (provenance.startingIndex !== undefined) {
+      return {
+        success: false,
+        message: `Starting index is already fixed at ${provenance.startingIndex}.`,
+        provenance
+      };
+    }
+    
+    // The art must still be exactly what the published hash covers
+    const verification = await verifyProvenance(provenance, async tokenId => {
+      const imagePath = path.join(baseOutputDir, 'images', `${tokenId}.png`);
+      return fs.existsSync(imagePath) ? fs.readFile(imagePath) : null;
+    });
+    if (!verification.matches) {
+      return {
+        success: false,
+        message: 'Images no longer match the published provenance hash.',
+        verification,
+        errorDetails: `Mismatched tokens: ${verification.mismatchedTokens.join(', ')}`
+      };
+    }
+    
+    const minioConfig = getMinioConfig();
+    const configValid = validateMinioConfig(minioConfig);
+    const collectionConfig = await getCollectionConfig(folderName);
+    
+    const startingIndex = deriveStartingIndex(source, provenance.totalTokens);
+    const layout = await layoutFinalCollection(collectionConfig, provenance, startingIndex);
+    
+    const finalized: ProvenanceRecord = {
+      ...provenance,
+      startingIndex,
+      startingIndexSource: source,
+      finalizedAt: new Date().toISOString()
+    };
+    await saveProvenance(baseOutputDir, finalized);
+    
+    // The final layout replaces the pre-reveal files under the same keys
+    let minioStatus: 'success' | 'failed' | 'skipped' = configValid ? 'success' : 'skipped';
+    if (configValid) {
+      const prefix = getCollectionPrefix(folderName);
+      
+      for (const token of layout) {
+        try {
+          const uploaded = await uploadNFTToMinio(minioConfig, token.imagePath, token.metadataPath, token.renditionPaths, prefix);
+          if (!uploaded) {
+            minioStatus = 'failed';
+          }
+        } catch (uploadError) {
+          console.error(`Error uploading final NFT #${token.tokenId} to MinIO:`, uploadError);
+          minioStatus = 'failed';
+        }
+      }
+    }
+    
+    return {
+      success: true,
+      message: `Starting index ${startingIndex} applied to ${layout.length} tokens`,
+      provenance: finalized,
+      minioStatus,
+      errorDetails: minioStatus === 'failed' ? 'Some MinIO uploads failed. Check server logs for details.' : undefined
+    };
+  } catch (error) {
+    console.error('Error finalizing collection layout:', error);
+    return {
+      success: false,
+      message: `Error finalizing collection layout: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Recompute the provenance hash of a collection from its stored pre-reveal images
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param fromMinio - Hash the images stored in MinIO instead of the local copies
+ */
+export async function verifyCollectionProvenance(folderName: string = '', fromMinio: boolean = false): Promise<ProvenanceResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    const provenance = await loadProvenance(baseOutputDir);
+    
+    if (!provenance) {
+      return {
+        success: false,
+        message: `Collection "${folderName || 'default'}" has no published provenance yet.`
+      };
+    }
+    
+    const minioConfig = getMinioConfig();
+    if (fromMinio && !validateMinioConfig(minioConfig)) {
+      return {
+        success: false,
+        message: 'MinIO is not configured, cannot fetch the stored images.'
+      };
+    }
+    
+    // After finalizing, MinIO holds the final layout, so map back to the pre-reveal order
+    const verification = await verifyProvenance(provenance, async tokenId => {
+      if (!fromMinio) {
+        const imagePath = path.join(baseOutputDir, 'images', `${tokenId}.png`);
+        return fs.existsSync(imagePath) ? fs.readFile(imagePath) : null;
+      }
+      
+      const storedId = provenance.startingIndex === undefined
+        ? tokenId
+        : getFinalTokenId(tokenId, provenance.startingIndex, provenance.totalTokens);
+      const imageKey = `${getCollectionPrefix(folderName || undefined)}images/${storedId}.png`;
+      return downloadFromMinio(minioConfig, imageKey);
+    });
+    
+    return {
+      success: true,
+      message: verification.matches
+        ? `Provenance hash ${verification.provenanceHash} verified`
+        : `Provenance mismatch in ${verification.mismatchedTokens.length} tokens`,
+      provenance,
+      verification
+    };
+  } catch (error) {
+    console.error('Error verifying provenance:', error);
+    return {
+      success: false,
+      message: `Error verifying provenance: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Reveal or hide the tokens of a collection, globally or for a range of token IDs
+ * 
+ * The metadata and image routes pick the new state up right away, the contract's base URI stays the same.
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default collection
+ * @param revealed - Serve the real assets (true) or the placeholder (false)
+ * @param options.from - First token ID of the range, omit to apply to all tokens
+ * @param options.to - Last token ID of the range (inclusive)
+ * @param options.hideAboveSupply - Keep tokens above the on-chain supply hidden
+ */
+export async function setRevealState(
+  folderName: string,
+  revealed: boolean,
+  options: { from?: number; to?: number; hideAboveSupply?: boolean } = {}
+): Promise<RevealResult> {
+  try {
+    const minioConfig = getMinioConfig();
+    
+    if (!validateMinioConfig(minioConfig)) {
+      return {
+        success: false,
+        message: 'MinIO is not configured, the reveal state is stored there.'
+      };
+    }
+    
+    const collection = folderName || undefined;
+    const state = await loadRevealState(minioConfig, collection);
+    let message: string;
+    
+    if (options.from !== undefined) {
+      const range = { from: options.from, to: options.to ?? options.from };
+      if (!Number.isInteger(range.from) || !Number.isInteger(range.to) || range.from < 1 || range.to < range.from) {
+        return {
+          success: false,
+          message: `Invalid token range ${range.from}-${range.to}`
+        };
+      }
+      
+      // Ranges only add to a hidden collection, a revealed one shows everything anyway
+      if (!revealed && state.revealed) {
+        return {
+          success: false,
+          message: 'The collection is revealed globally. Hide it first, then reveal ranges.',
+          state
+        };
+      }
+      
+      state.revealedRanges = revealed
+        ? addRevealRange(state.revealedRanges, range)
+        : removeRevealRange(state.revealedRanges, range);
+      message = `Tokens ${range.from}-${range.to} ${revealed ? 'revealed' : 'hidden'}`;
+    } else {
+      state.revealed = revealed;
+      // A global change starts from a clean slate
+      state.revealedRanges = [];
+      message = revealed ? 'All tokens revealed' : 'All tokens hidden';
+    }
+    
+    if (options.hideAboveSupply !== undefined) {
+      state.hideAboveSupply = options.hideAboveSupply;
+    }
+    
+    if (!(await saveRevealState(minioConfig, state, collection))) {
+      return {
+        success: false,
+        message: 'Failed to store the reveal state in MinIO.',
+        errorDetails: 'Check server logs for details.'
+      };
+    }
+    
+    return {
+      success: true,
+      message: `${message} for collection "${folderName || 'default'}"`,
+      state
+    };
+  } catch (error) {
+    console.error('Error updating reveal state:', error);
+    return {
+      success: false,
+      message: `Error updating reveal state: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * List the collections and the traits of their layers for the preview panel
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ */
+export async function getPreviewOptions(folderName: string = ''): Promise<PreviewOptionsResult> {
+  try {
+    const collectionsDir = path.join(process.cwd(), 'public/collections');
+    const collections = fs.existsSync(collectionsDir)
+      ? (await fs.readdir(collectionsDir, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+      : [];
+    
+    const { layers: collectionLayers } = await getCollectionConfig(folderName, false, true);
+    const layers = collectionLayers.map(layer => ({
+      name: layer.name,
+      traits: getImagesForLayer(layer).map(image => image.trait),
+      linkedTo: layer.linkedTo
+    }));
+    
+    return {
+      success: true,
+      message: `${layers.length} layers available for "${folderName || 'default'}"`,
+      collections: ['', ...collections],
+      layers
+    };
+  } catch (error) {
+    console.error('Error loading preview options:', error);
+    return {
+      success: false,
+      message: `Error loading preview options: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Render a preview of a collection's next token in memory - nothing is written or uploaded
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param forcedTraits - Traits picked by hand, keyed by layer name
+ * @param tokenId - Token ID used for the name and text overlays, defaults to 1
+ */
+export async function previewCollectionNFT(
+  folderName: string = '',
+  forcedTraits: Record<string, string> = {},
+  tokenId: number = 1
+): Promise<PreviewResult> {
+  try {
+    // Previews must not write anything, not even a seed or the migrated collection.json
+    const preview = await previewNFT(tokenId, await getCollectionConfig(folderName, false, true), { forcedTraits });
+    
+    return {
+      success: true,
+      message: preview.dnaTaken
+        ? 'Preview rendered - this combination is already taken, generation would re-roll it'
+        : 'Preview rendered',
+      dataUrl: preview.dataUrl,
+      metadata: preview.metadata,
+      dnaTaken: preview.dnaTaken
+    };
+  } catch (error) {
+    console.error('Error rendering preview:', error);
+    return {
+      success: false,
+      message: `Error rendering preview: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+// Content types of the versioned files kept in a token's history
+const HISTORY_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.json': 'application/json',
+  '.gif': 'image/gif',
+  '.apng': 'image/apng',
+  '.svg': 'image/svg+xml'
+};
+
+/**
+ * Upload the files written by a re-roll, rollback or freeze under the same keys as the local files
+ */
+async function uploadTokenHistoryChange(
+  folderName: string,
+  change: Pick<TokenHistoryChange, 'history' | 'historyPath' | 'versionFiles'> & Partial<TokenHistoryChange>
+): Promise<'success' | 'failed' | 'skipped'> {
+  const minioConfig = getMinioConfig();
+  
+  if (!validateMinioConfig(minioConfig)) {
+    return 'skipped';
+  }
+  
+  const prefix = getCollectionPrefix(folderName || undefined);
+  let uploaded = true;
+  
+  try {
+    const files = [...change.versionFiles, { path: change.historyPath, key: getHistoryKey(change.history.tokenId) }];
+    for (const file of files) {
+      const url = await uploadBufferToMinio(
+        minioConfig,
+        await fs.readFile(file.path),
+        `${prefix}${file.key}`,
+        HISTORY_CONTENT_TYPES[path.extname(file.key)] || 'application/octet-stream'
+      );
+      uploaded = uploaded && url !== null;
+    }
+    
+    if (change.imagePath && change.metadataPath) {
+      uploaded = await uploadNFTToMinio(minioConfig, change.imagePath, change.metadataPath, change.renditionPaths, prefix) && uploaded;
+    }
+  } catch (uploadError) {
+    console.error('Error uploading token history to MinIO:', uploadError);
+    uploaded = false;
+  }
+  
+  return uploaded ? 'success' : 'failed';
+}
+
+/**
+ * Regenerate a single token with a fresh roll, keeping its previous versions
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param tokenId - The token to re-roll
+ * @param reason - Why the token is re-rolled, e.g. "wrong overlay", kept in its history
+ */
+export async function rerollCollectionToken(folderName: string, tokenId: number, reason: string): Promise<TokenHistoryResult> {
+  try {
+    const change = await rerollToken(tokenId, await getCollectionConfig(folderName), reason);
+    const minioStatus = await uploadTokenHistoryChange(folderName, change);
+    
+    return {
+      success: true,
+      message: `NFT #${tokenId} re-rolled as version ${change.history.currentVersion}`,
+      history: change.history,
+      minioStatus,
+      errorDetails: minioStatus === 'failed' ? 'Some MinIO uploads failed. Check server logs for details.' : undefined
+    };
+  } catch (error) {
+    console.error('Error re-rolling NFT:', error);
+    return {
+      success: false,
+      message: `Error re-rolling NFT: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Make an earlier version of a token current again
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param tokenId - The token to roll back
+ * @param version - Version number from the token's history
+ * @param reason - Why the token is rolled back, kept in its history
+ */
+export async function rollbackCollectionToken(
+  folderName: string,
+  tokenId: number,
+  version: number,
+  reason: string
+): Promise<TokenHistoryResult> {
+  try {
+    const change = await rollbackToken(tokenId, await getCollectionConfig(folderName), version, reason);
+    const minioStatus = await uploadTokenHistoryChange(folderName, change);
+    
+    return {
+      success: true,
+      message: `NFT #${tokenId} rolled back to version ${version}`,
+      history: change.history,
+      minioStatus,
+      errorDetails: minioStatus === 'failed' ? 'Some MinIO uploads failed. Check server logs for details.' : undefined
+    };
+  } catch (error) {
+    console.error('Error rolling back NFT:', error);
+    return {
+      success: false,
+      message: `Error rolling back NFT: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Mark a token as permanent so it can no longer be re-rolled or rolled back
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param tokenId - The token to freeze
+ * @param reason - Why the token is frozen, kept in its history
+ */
+export async function freezeCollectionToken(folderName: string, tokenId: number, reason: string = ''): Promise<TokenHistoryResult> {
+  try {
+    const change = await freezeToken(tokenId, await getCollectionConfig(folderName), reason);
+    const minioStatus = await uploadTokenHistoryChange(folderName, change);
+    
+    return {
+      success: true,
+      message: `NFT #${tokenId} frozen at version ${change.history.currentVersion}`,
+      history: change.history,
+      minioStatus,
+      errorDetails: minioStatus === 'failed' ? 'Some MinIO uploads failed. Check server logs for details.' : undefined
+    };
+  } catch (error) {
+    console.error('Error freezing NFT:', error);
+    return {
+      success: false,
+      message: `Error freezing NFT: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
+
+/**
+ * Read the version history of a token
+ * 
+ * @param folderName - The folder name of the collection, or empty for the default output
+ * @param tokenId - The token to look up
+ */
+export async function getCollectionTokenHistory(folderName: string, tokenId: number): Promise<TokenHistoryResult> {
+  try {
+    const baseOutputDir = folderName
+      ? path.join(process.cwd(), 'public/collections', folderName)
+      : path.join(process.cwd(), 'public/output');
+    const history = await loadTokenHistory(baseOutputDir, tokenId);
+    
+    return {
+      success: true,
+      message: history
+        ? `NFT #${tokenId} has ${history.versions.length} versions${history.frozen ? ' and is frozen' : ''}`
+        : `NFT #${tokenId} has never been re-rolled`,
+      history: history || undefined
+    };
+  } catch (error) {
+    console.error('Error loading token history:', error);
+    return {
+      success: false,
+      message: `Error loading token history: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
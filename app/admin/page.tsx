@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import NFTPreviewPanel from '@/components/NFTPreviewPanel';
 
 // Add interface for transfer data
 interface Transfer {
@@ -28,10 +29,33 @@ interface NFTMetadata {
   attributes: Array<{
     trait_type: string;
     value: string | number;
+    display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+    max_value?: number;
   }>;
+  external_url?: string;
+  animation_url?: string;
+  background_color?: string;
+  youtube_url?: string;
   error?: string; // Add error field for when metadata fails to load
 }
 
+// Render a value the way marketplaces do for its display type
+function formatAttributeValue(attr: NFTMetadata['attributes'][number]): string {
+  if (typeof attr.value !== 'number') {
+    return attr.value?.toString() || "";
+  }
+  switch (attr.display_type) {
+    case 'date':
+      return new Date(attr.value * 1000).toLocaleDateString();
+    case 'boost_number':
+      return `+${attr.value}`;
+    case 'boost_percentage':
+      return `+${attr.value}%`;
+    default:
+      return attr.value.toString();
+  }
+}
+
 // Add interface for token data that includes metadata
 interface TokenData {
   tokenId: string;
@@ -1212,9 +1236,9 @@ export default function AdminPage() {
                                 <div className="mt-3">
                                   <h5 className="font-medium text-sm mb-2 text-gray-700">Attributes</h5>
                                   <div className="flex flex-wrap gap-2">
-                                    {token.metadata.attributes.map((attr: any, index: number) => (
+                                    {token.metadata.attributes.map((attr, index) => (
                                       <div key={index} className="px-3 py-1.5 bg-blue-50 text-blue-800 rounded-full text-xs">
-                                        <span className="font-medium">{attr.trait_type}:</span> {attr.value?.toString() || ""}
+                                        <span className="font-medium">{attr.trait_type}:</span> {formatAttributeValue(attr)}
                                         {attr.display_type === 'number' && attr.max_value && (
                                           <span className="text-gray-500"> ({attr.value}/{attr.max_value})</span>
                                         )}
@@ -1423,6 +1447,12 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* Pre-mint preview section */}
+      <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">Preview Generation</h2>
+        <NFTPreviewPanel />
+      </div>
+
       {/* API Configuration Info section */}
       <div className="bg-white shadow-md rounded-lg p-6 mb-6">
         <h2 className="text-xl font-semibold mb-4">API Configuration</h2>
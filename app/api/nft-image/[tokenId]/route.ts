@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { initializeMinioClient } from '@/utils/minioClient';
+import { fetchOnChainTotalSupply, getCollectionPrefix, isTokenRevealed, loadRevealState, parseCollectionParam } from '@/utils/reveal';
+import { ANIMATION_EXTENSIONS, ANIMATION_FOLDER, ANIMATION_MIME_TYPES } from '@/utils/animation';
+import { SVG_MIME_TYPE } from '@/utils/svgOutput';
 import { Readable } from 'stream';
 import fs from 'fs/promises';
 import path from 'path';
@@ -82,24 +85,58 @@ export async function GET(
       return new NextResponse('Database connection failed', { status: 500 });
     }
     
+    // Optional collection, e.g. /api/nft-image/5?collection=my-collection
+    const searchParams = new URL(request.url).searchParams;
+    const collection = parseCollectionParam(searchParams.get('collection'));
+    // Animated tokens serve their GIF or APNG with ?animated=1, the static poster otherwise
+    const animated = searchParams.get('animated') === '1';
+    // Vector tokens serve their SVG, ?format=png forces the rasterized copy
+    const allowSvg = searchParams.get('format') !== 'png';
+    
+    // Hidden tokens get the placeholder image until they are revealed
+    const revealState = await loadRevealState(config, collection);
+    const totalSupply = revealState.hideAboveSupply ? await fetchOnChainTotalSupply() : null;
+    if (!isTokenRevealed(revealState, parseInt(tokenId, 10), totalSupply)) {
+      return new NextResponse(await getPlaceholderImage(), {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/png',
+          'Cache-Control': 'no-cache' // The token may be revealed at any moment
+        }
+      });
+    }
+    
     // Try standard path first
     let buffer: Buffer | null = null;
     let foundInMinio = false;
+    let contentType = 'image/png';
     
-    // Define possible paths to check in order
-    const paths = [
-      `images/${tokenId}.png`,  // Standard path
-      `metadata/images/${tokenId}.png`, // Alternative path
-      `collections/images/${tokenId}.png` // Another possible path
-    ];
+    // Define possible paths to check in order - a requested collection is only looked up under its own prefix
+    const prefix = collection ? getCollectionPrefix(collection) : '';
+    const paths = animated
+      ? (Object.keys(ANIMATION_EXTENSIONS) as Array<keyof typeof ANIMATION_EXTENSIONS>).map(format => ({
+        objectPath: `${prefix}images/${ANIMATION_FOLDER}/${tokenId}.${ANIMATION_EXTENSIONS[format]}`,
+        type: ANIMATION_MIME_TYPES[format]
+      }))
+      : (collection
+        ? [`${prefix}images/${tokenId}`]  // Requested collection
+        : [
+          `images/${tokenId}`,  // Standard path
+          `metadata/images/${tokenId}`, // Alternative path
+          `collections/images/${tokenId}` // Another possible path
+        ]).flatMap(basePath => [
+        ...(allowSvg ? [{ objectPath: `${basePath}.svg`, type: SVG_MIME_TYPE }] : []),
+        { objectPath: `${basePath}.png`, type: 'image/png' }
+      ]);
     
     // Try each path
-    for (const objectPath of paths) {
+    for (const { objectPath, type } of paths) {
       try {
         console.log(`Trying MinIO path: ${config.bucketName}/${objectPath}`);
         const dataStream = await minioClient.getObject(config.bucketName, objectPath);
         buffer = await streamToBuffer(dataStream);
         console.log(`Successfully found image at: ${objectPath}`);
+        contentType = type;
         foundInMinio = true;
         break; // Exit loop once found
       } catch (pathError) {
@@ -111,8 +148,10 @@ export async function GET(
       return new NextResponse(buffer, {
         status: 200,
         headers: {
-          'Content-Type': 'image/png',
-          'Cache-Control': 'no-cache' // Don't cache to ensure fresh data
+          'Content-Type': contentType,
+          'Cache-Control': 'no-cache', // Don't cache to ensure fresh data
+          // Layer SVGs are sanitized when composed, this blocks scripts should anything slip through
+          ...(contentType === SVG_MIME_TYPE ? { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src data:" } : {})
         }
       });
     }
@@ -1,5 +1,18 @@
 import { NextResponse } from 'next/server';
 import { initializeMinioClient } from '@/utils/minioClient';
+import { validateNFTMetadata } from '@/utils/metadataSchema';
+import {
+  buildPlaceholderMetadata,
+  fetchOnChainTotalSupply,
+  getCollectionPrefix,
+  isTokenRevealed,
+  loadRevealState,
+  parseCollectionParam
+} from '@/utils/reveal';
+import { ANIMATION_FOLDER } from '@/utils/animation';
+import { getLocalizedMetadataKey, getRequestedLocales } from '@/utils/localization';
+import { getCollectionName } from '@/utils/collectionConfig';
+import type { NFTMetadata } from '@/utils/nftGenerator';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -28,7 +41,7 @@ async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
 }
 
 // Generate fallback metadata when none exists
-function generateFallbackMetadata(tokenId: string) {
+function generateFallbackMetadata(tokenId: string): NFTMetadata {
   return {
     name: `NFT #${tokenId}`,
     description: "This NFT metadata is not available. No data found.",
@@ -70,15 +83,46 @@ export async function GET(
       return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
     }
     
-    // Try different possible paths for metadata
+    // Optional collection, e.g. /api/nft-metadata/5?collection=my-collection
+    const searchParams = new URL(request.url).searchParams;
+    const collection = parseCollectionParam(searchParams.get('collection'));
+    const imageProxyUrl = `/api/nft-image/${tokenId}${collection ? `?collection=${collection}` : ''}`;
+    
+    // Hidden tokens get the placeholder, so the contract's base URI never has to change
+    const revealState = await loadRevealState(config, collection);
+    const totalSupply = revealState.hideAboveSupply ? await fetchOnChainTotalSupply() : null;
+    if (!isTokenRevealed(revealState, parseInt(tokenId, 10), totalSupply)) {
+      const collectionName = collection ? getCollectionName(collection) : '';
+      const placeholder = await buildPlaceholderMetadata(parseInt(tokenId, 10), collectionName, imageProxyUrl);
+      
+      return NextResponse.json(placeholder, {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-cache', // The token may be revealed at any moment
+        },
+      });
+    }
+    
+    // Translations first, e.g. ?locale=ja or "Accept-Language: ja-JP", falling back to the default language
+    const locales = getRequestedLocales(searchParams.get('locale'), request.headers.get('accept-language'));
+    const prefix = collection ? getCollectionPrefix(collection) : '';
+    const localizedPaths = locales.map(locale => ({ locale, path: `${prefix}${getLocalizedMetadataKey(locale, tokenId)}` }));
+    
+    // Try different possible paths for metadata - a requested collection is only looked up under its own prefix
     const paths = [
-      `metadata/${tokenId}.json`,  // Standard path
-      `${tokenId}.json`,           // Root path
-      `collections/metadata/${tokenId}.json` // Collection path
+      ...localizedPaths.map(localized => localized.path),
+      ...(collection
+        ? [`${prefix}metadata/${tokenId}.json`]  // Requested collection
+        : [
+          `metadata/${tokenId}.json`,  // Standard path
+          `${tokenId}.json`,           // Root path
+          `collections/metadata/${tokenId}.json` // Collection path
+        ])
     ];
     
-    let metadata: any = null;
+    let metadata: NFTMetadata | null = null;
     let foundInMinio = false;
+    let foundLocale: string | undefined;
     
     // Try each path
     for (const objectPath of paths) {
@@ -91,6 +135,7 @@ export async function GET(
         metadata = JSON.parse(jsonString);
         console.log(`Successfully found metadata at: ${objectPath}`);
         foundInMinio = true;
+        foundLocale = localizedPaths.find(localized => localized.path === objectPath)?.locale;
         break; // Exit loop once found
       } catch (pathError) {
         // Continue to next path
@@ -98,15 +143,27 @@ export async function GET(
     }
     
     if (foundInMinio && metadata) {
+      // Hand-authored files may not follow the standard, serve them anyway but make it visible
+      const metadataErrors = validateNFTMetadata(metadata);
+      if (metadataErrors.length > 0) {
+        console.warn(`Metadata for NFT #${tokenId} does not match the schema: ${metadataErrors.join('; ')}`);
+      }
+      
       // Process the image URL to use our image proxy
       if (metadata.image) {
-        metadata.image = `/api/nft-image/${tokenId}`;
+        metadata.image = imageProxyUrl;
+      }
+      // Generated animations go through the proxy too, hand-authored links elsewhere are kept
+      if (metadata.animation_url && `/${metadata.animation_url}`.includes(`/${ANIMATION_FOLDER}/`)) {
+        metadata.animation_url = `${imageProxyUrl}${collection ? '&' : '?'}animated=1`;
       }
       
       return NextResponse.json(metadata, {
         status: 200,
         headers: {
           'Cache-Control': 'no-cache', // Don't cache to ensure fresh data
+          'Vary': 'Accept-Language', // The language may differ per request
+          ...(foundLocale ? { 'Content-Language': foundLocale } : {}),
         },
       });
     }
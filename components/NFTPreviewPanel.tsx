@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { getPreviewOptions, previewCollectionNFT } from '@/app/actions';
+import type { PreviewOptionsResult, PreviewResult } from '@/app/actions';
+
+export default function NFTPreviewPanel() {
+  const [collection, setCollection] = useState('');
+  const [options, setOptions] = useState<PreviewOptionsResult | null>(null);
+  const [forcedTraits, setForcedTraits] = useState<Record<string, string>>({});
+  const [isRendering, setIsRendering] = useState(false);
+  const [result, setResult] = useState<PreviewResult | null>(null);
+
+  // Reload the layers whenever another collection is picked
+  useEffect(() => {
+    getPreviewOptions(collection).then(setOptions);
+    setForcedTraits({});
+    setResult(null);
+  }, [collection]);
+
+  const handleForceTrait = (layer: string, trait: string) => {
+    const updated = { ...forcedTraits };
+    if (trait) {
+      updated[layer] = trait;
+    } else {
+      delete updated[layer];
+    }
+    setForcedTraits(updated);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsRendering(true);
+      setResult(await previewCollectionNFT(collection, forcedTraits));
+    } catch (error) {
+      console.error('Error rendering preview:', error);
+      setResult({
+        success: false,
+        message: `Something went wrong: ${error instanceof Error ? error.message : String(error)}`
+      });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-800">
+        Render a token in memory to check what a collection produces. Nothing is saved, uploaded or counted.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-800 mb-1">Collection</label>
+        <select
+          value={collection}
+          onChange={(e) => setCollection(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+        >
+          {(options?.collections || ['']).map(name => (
+            <option key={name} value={name}>{name || 'Default collection'}</option>
+          ))}
+        </select>
+      </div>
+
+      {options?.layers && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {options.layers.map(layer => (
+            <div key={layer.name}>
+              <label className="block text-sm font-medium text-gray-800 mb-1">{layer.name}</label>
+              <select
+                value={forcedTraits[layer.name] || ''}
+                onChange={(e) => handleForceTrait(layer.name, e.target.value)}
+                disabled={!!layer.linkedTo || layer.traits.length === 0}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 disabled:bg-gray-50"
+              >
+                <option value="">
+                  {layer.linkedTo ? `Follows ${layer.linkedTo}` : layer.traits.length === 0 ? 'No assets' : 'Random'}
+                </option>
+                {!layer.linkedTo && layer.traits.map(trait => (
+                  <option key={trait} value={trait}>{trait}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handlePreview}
+        disabled={isRendering}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {isRendering ? "Rendering..." : result ? "Re-roll Preview" : "Render Preview"}
+      </button>
+
+      {result && (
+        <div className={`w-full p-4 rounded-lg border ${result.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          <p className={`text-sm mb-3 ${result.dnaTaken ? 'text-orange-700' : result.success ? 'text-green-700' : 'text-red-700'}`}>
+            {result.message}
+          </p>
+
+          {result.dataUrl && (
+            <div className="relative w-full max-w-md mx-auto aspect-square border border-gray-200 rounded-lg overflow-hidden">
+              {/* Data URLs can't go through the image optimizer */}
+              <Image
+                src={result.dataUrl}
+                alt="NFT preview"
+                fill
+                sizes="(max-width: 768px) 100vw, 28rem"
+                style={{ objectFit: 'contain' }}
+                unoptimized
+              />
+            </div>
+          )}
+
+          {result.metadata && (
+            <div className="mt-3 p-3 bg-gray-800 text-gray-100 rounded overflow-auto max-h-80">
+              <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(result.metadata, null, 2)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Read the token details embedded in a generated PNG and check neither they nor the image were modified since
+ *
+ * Usage: npm run inspect:png -- <image.png>
+ *
+ * Works on any copy of the image, e.g. one downloaded from a marketplace, as long as the file itself
+ * wasn't re-encoded.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { verifyEmbeddedMetadata } from '@/utils/pngMetadata';
+
+async function main() {
+  const imagePath = process.argv[2];
+  if (!imagePath) {
+    console.error('Usage: npm run inspect:png -- <image.png>');
+    process.exit(1);
+  }
+
+  const verification = verifyEmbeddedMetadata(await fs.readFile(path.resolve(imagePath)));
+  const metadata = verification.metadata;
+
+  if (metadata) {
+    console.log(`Collection:   ${metadata.collectionName}`);
+    console.log(`Token ID:     ${metadata.tokenId}`);
+    console.log(`DNA:          ${metadata.dna || '(none)'}`);
+    console.log(`Generated at: ${metadata.timestamp}`);
+    console.log('Traits:');
+    for (const trait of metadata.traits) {
+      console.log(`  ${trait.trait_type}: ${trait.value}`);
+    }
+    console.log(`\nEmbedded content hash:   ${metadata.contentHash}`);
+  }
+  console.log(`Recomputed content hash: ${verification.contentHash}`);
+  console.log(verification.message);
+  process.exit(verification.valid ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('PNG inspection failed:', error);
+  process.exit(1);
+});
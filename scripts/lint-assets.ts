@@ -0,0 +1,30 @@
+/**
+ * Lint the layer assets of the default collection or of a collection folder
+ *
+ * Usage: npm run lint:assets [-- <collection-folder>]
+ */
+import { DEFAULT_CONFIG } from '@/utils/nftGenerator';
+import { lintLayerAssets } from '@/utils/assetLint';
+import { loadCollectionConfig } from '@/utils/collectionConfig';
+
+async function main() {
+  const folderName = process.argv[2];
+  // Linting only reads, so a legacy collection.json is left as it is
+  const config = folderName ? await loadCollectionConfig(folderName, DEFAULT_CONFIG, false) : DEFAULT_CONFIG;
+
+  const report = await lintLayerAssets(config);
+
+  for (const issue of report.issues) {
+    const location = issue.file ? `${issue.layer}/${issue.file}` : issue.layer;
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`${issue.severity.toUpperCase()} ${location}: ${issue.message}`);
+  }
+
+  console.log(`\nChecked ${report.checkedFiles} files: ${report.errors} errors, ${report.warnings} warnings`);
+  process.exit(report.errors > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Asset lint failed:', error);
+  process.exit(1);
+});
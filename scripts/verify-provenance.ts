@@ -0,0 +1,47 @@
+/**
+ * Recompute the provenance hash of a collection from its pre-reveal images
+ *
+ * Usage: npm run verify:provenance [-- <collection-folder> [<images-folder>]]
+ *
+ * Anyone with the published provenance.json and the images can run this, the images folder
+ * defaults to the collection's own pre-reveal images.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { loadProvenance, verifyProvenance } from '@/utils/provenance';
+
+async function main() {
+  const folderName = process.argv[2];
+  const outputDir = folderName
+    ? path.join(process.cwd(), 'public/collections', folderName)
+    : path.join(process.cwd(), 'public/output');
+  const imagesDir = process.argv[3] ? path.resolve(process.argv[3]) : path.join(outputDir, 'images');
+
+  const provenance = await loadProvenance(outputDir);
+  if (!provenance) {
+    console.error(`No provenance.json found in ${outputDir}`);
+    process.exit(1);
+  }
+
+  const verification = await verifyProvenance(provenance, async tokenId => {
+    const imagePath = path.join(imagesDir, `${tokenId}.png`);
+    return (await fs.pathExists(imagePath)) ? fs.readFile(imagePath) : null;
+  });
+
+  for (const tokenId of verification.mismatchedTokens) {
+    console.error(`MISMATCH token #${tokenId}: image is missing or differs from the published hash`);
+  }
+
+  console.log(`\nPublished provenance hash:  ${verification.expectedHash}`);
+  console.log(`Recomputed provenance hash: ${verification.provenanceHash}`);
+  if (provenance.startingIndex !== undefined) {
+    console.log(`Starting index: ${provenance.startingIndex} (from ${provenance.startingIndexSource})`);
+  }
+  console.log(verification.matches ? 'Provenance verified' : 'Provenance does NOT match');
+  process.exit(verification.matches ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Provenance verification failed:', error);
+  process.exit(1);
+});
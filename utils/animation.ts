@@ -0,0 +1,203 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+import { PNGChunk, readPNGChunks, writePNGChunks } from './pngMetadata';
+
+// How an NFT with animated layers is written next to its static poster image
+export interface AnimationConfig {
+  format: 'gif' | 'apng';
+  frameDuration?: number;  // Milliseconds per frame, defaults to 100
+  loop?: number;  // Times to play the animation, 0 (the default) loops forever
+  posterFrame?: number;  // Frame kept as the static image, defaults to the first
+}
+
+// Folder under images/ that holds the animations, e.g. images/animation/5.gif
+export const ANIMATION_FOLDER = 'animation';
+
+export const ANIMATION_MIME_TYPES: Record<AnimationConfig['format'], string> = {
+  gif: 'image/gif',
+  apng: 'image/apng'
+};
+
+export const ANIMATION_EXTENSIONS: Record<AnimationConfig['format'], string> = {
+  gif: 'gif',
+  apng: 'apng'
+};
+
+/**
+ * Path of a token's animation relative to the images folder
+ */
+export function getAnimationRelativePath(animation: AnimationConfig, tokenId: number): string {
+  return `${ANIMATION_FOLDER}/${tokenId}.${ANIMATION_EXTENSIONS[animation.format]}`;
+}
+
+/**
+ * Local path of a token's generated animation, or null when it has none
+ */
+export async function findAnimationFile(outputDir: string, tokenId: number): Promise<string | null> {
+  for (const extension of Object.values(ANIMATION_EXTENSIONS)) {
+    const animationPath = path.join(outputDir, 'images', ANIMATION_FOLDER, `${tokenId}.${extension}`);
+    if (await fs.pathExists(animationPath)) {
+      return animationPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an APNG chunk holding big-endian 32-bit and 16-bit fields
+ */
+function createChunk(type: string, fields: Array<[number, 1 | 2 | 4]>, data?: Buffer): PNGChunk {
+  const header = Buffer.alloc(fields.reduce((size, [, bytes]) => size + bytes, 0));
+  let offset = 0;
+  for (const [value, bytes] of fields) {
+    header.writeUIntBE(value, offset, bytes);
+    offset += bytes;
+  }
+  return { type, data: data ? Buffer.concat([header, data]) : header };
+}
+
+/**
+ * Join PNG frames of the same size into an animated PNG
+ *
+ * Every frame is stored whole, so no frame depends on the one before it.
+ */
+export function encodeAPNG(frames: Buffer[], animation: AnimationConfig): Buffer {
+  const frameChunks = frames.map(frame => readPNGChunks(frame));
+  const [first] = frameChunks;
+  const ihdr = first[0].data;
+  const width = ihdr.readUInt32BE(0);
+  const height = ihdr.readUInt32BE(4);
+
+  for (const [index, chunks] of frameChunks.entries()) {
+    if (!chunks[0].data.equals(ihdr)) {
+      throw new Error(`Frame ${index} does not have the same size and color type as the first frame`);
+    }
+  }
+
+  const output: PNGChunk[] = [first[0], createChunk('acTL', [[frames.length, 4], [animation.loop ?? 0, 4]])];
+  // Ancillary chunks of the first frame, e.g. pHYs, must come before the image data
+  output.push(...first.slice(1).filter(chunk => chunk.type !== 'IDAT' && chunk.type !== 'IEND'));
+
+  let sequence = 0;
+  for (const [index, chunks] of frameChunks.entries()) {
+    output.push(createChunk('fcTL', [
+      [sequence++, 4],
+      [width, 4],
+      [height, 4],
+      [0, 4],  // x offset
+      [0, 4],  // y offset
+      [animation.frameDuration ?? 100, 2],  // Delay numerator
+      [1000, 2],  // Delay denominator, so the delay is in milliseconds
+      [0, 1],  // Dispose: none
+      [0, 1]  // Blend: replace the previous frame
+    ]));
+
+    // The first frame doubles as the image shown by viewers without APNG support
+    for (const chunk of chunks.filter(chunk => chunk.type === 'IDAT')) {
+      output.push(index === 0 ? chunk : createChunk('fdAT', [[sequence++, 4]], chunk.data));
+    }
+  }
+
+  output.push({ type: 'IEND', data: Buffer.alloc(0) });
+  return writePNGChunks(output);
+}
+
+/**
+ * Skip a run of GIF data sub-blocks, returning the offset after the terminating empty block
+ */
+function skipSubBlocks(gif: Buffer, offset: number): number {
+  while (gif[offset] !== 0) {
+    offset += gif[offset] + 1;
+  }
+  return offset + 1;
+}
+
+/**
+ * Pull the color table, transparency and image data out of a single-frame GIF
+ */
+function parseGIFFrame(gif: Buffer): { colorTable: Buffer; colorTableBits: number; transparentIndex?: number; image: Buffer } {
+  const screenFlags = gif[10];
+  let offset = 13;
+  let colorTable: Buffer = Buffer.alloc(0);
+  let colorTableBits = 0;
+  let transparentIndex: number | undefined;
+
+  if (screenFlags & 0x80) {
+    colorTableBits = screenFlags & 0x07;
+    colorTable = gif.subarray(offset, offset + 3 * 2 ** (colorTableBits + 1));
+    offset += colorTable.length;
+  }
+
+  while (offset < gif.length) {
+    const introducer = gif[offset];
+
+    if (introducer === 0x21) {
+      // Graphic control extension - the only one that matters for the frame itself
+      if (gif[offset + 1] === 0xf9 && gif[offset + 3] & 0x01) {
+        transparentIndex = gif[offset + 6];
+      }
+      offset = skipSubBlocks(gif, offset + 2);
+    } else if (introducer === 0x2c) {
+      const imageFlags = gif[offset + 9];
+      let end = offset + 10;
+      if (imageFlags & 0x80) {
+        // A local color table wins over the global one
+        colorTableBits = imageFlags & 0x07;
+        colorTable = gif.subarray(end, end + 3 * 2 ** (colorTableBits + 1));
+        end += colorTable.length;
+      }
+      // LZW minimum code size, then the compressed data
+      end = skipSubBlocks(gif, end + 1);
+
+      const descriptor = Buffer.from(gif.subarray(offset, offset + 10));
+      descriptor[9] = (imageFlags & 0x40) | 0x80 | colorTableBits;
+      const data = gif.subarray(offset + 10 + (imageFlags & 0x80 ? colorTable.length : 0), end);
+
+      return { colorTable, colorTableBits, transparentIndex, image: Buffer.concat([descriptor, colorTable, data]) };
+    } else {
+      break;
+    }
+  }
+
+  throw new Error('GIF frame holds no image');
+}
+
+/**
+ * Join PNG frames of the same size into an animated GIF, each frame with its own palette
+ */
+export async function encodeGIF(frames: Buffer[], animation: AnimationConfig): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(frames[0]).metadata();
+  const delay = Math.round((animation.frameDuration ?? 100) / 10);
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  // No global color table, every frame brings its own
+  screen[4] = 0x70;
+
+  const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0x00]);
+  loop.writeUInt16LE(animation.loop ?? 0, 16);
+
+  const parts: Buffer[] = [Buffer.from('GIF89a'), screen, loop];
+  for (const frame of frames) {
+    const parsed = parseGIFFrame(await sharp(frame).gif().toBuffer());
+
+    // Transparent frames are cleared before the next one, so nothing shows through from earlier frames
+    const transparent = parsed.transparentIndex !== undefined;
+    const control = Buffer.from([0x21, 0xf9, 0x04, transparent ? 0x09 : 0x04, 0, 0, parsed.transparentIndex ?? 0, 0x00]);
+    control.writeUInt16LE(delay, 4);
+
+    parts.push(control, parsed.image);
+  }
+  parts.push(Buffer.from([0x3b]));
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Encode the frames in the configured animation format
+ */
+export async function encodeAnimation(frames: Buffer[], animation: AnimationConfig): Promise<Buffer> {
+  return animation.format === 'gif' ? encodeGIF(frames, animation) : encodeAPNG(frames, animation);
+}
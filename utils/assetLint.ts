@@ -0,0 +1,203 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+import { LayerConfig, NFTConfig, parseTraitFileName } from './nftGenerator';
+import { hasUnsafeSVGContent, parseSVGAsset } from './svgOutput';
+
+export interface AssetLintIssue {
+  severity: 'error' | 'warning';
+  layer: string;
+  file?: string;
+  message: string;
+}
+
+export interface AssetLintReport {
+  collectionName: string;
+  checkedFiles: number;
+  errors: number;
+  warnings: number;
+  issues: AssetLintIssue[];
+}
+
+/**
+ * Layers above the bottom one need an alpha channel, otherwise they hide everything below them
+ */
+function needsTransparency(layer: LayerConfig, index: number): boolean {
+  return layer.transparent ?? index > 0;
+}
+
+/**
+ * Check a single layer asset: decodability, dimensions and transparency
+ */
+async function lintAsset(
+  config: NFTConfig,
+  layer: LayerConfig,
+  layerIndex: number,
+  filePath: string,
+  isFrame: boolean = false  // Frame of an animated trait folder
+): Promise<AssetLintIssue[]> {
+  const issues: AssetLintIssue[] = [];
+  const file = isFrame ? `${path.basename(path.dirname(filePath))}/${path.basename(filePath)}` : path.basename(filePath);
+  const issue = (severity: AssetLintIssue['severity'], message: string) =>
+    issues.push({ severity, layer: layer.name, file, message });
+
+  let metadata: sharp.Metadata;
+  let isOpaque: boolean;
+  try {
+    // stats() decodes every pixel, so truncated files are caught as well
+    metadata = await sharp(filePath).metadata();
+    isOpaque = (await sharp(filePath).stats()).isOpaque;
+  } catch (error) {
+    issue('error', `Cannot be decoded: ${error instanceof Error ? error.message : String(error)}`);
+    return issues;
+  }
+
+  // Sprite sheets hold their frames side by side, each frame is checked like a single image
+  const spriteFrames = isFrame ? 1 : layer.spriteFrames ?? 1;
+  if (spriteFrames > 1 && metadata.width && metadata.width % spriteFrames !== 0) {
+    issue('error', `Is ${metadata.width}px wide, which doesn't split into ${spriteFrames} equal frames`);
+  }
+
+  // Natural-size layers are placed by offset and scale, so only canvas-size layers must match
+  if (layer.size !== 'natural' && metadata.width && metadata.height) {
+    const frameWidth = Math.floor(metadata.width / spriteFrames);
+    if (frameWidth !== config.width || metadata.height !== config.height) {
+      const sameAspectRatio = frameWidth * config.height === metadata.height * config.width;
+      issue(
+        sameAspectRatio ? 'warning' : 'error',
+        `${spriteFrames > 1 ? 'Has frames of' : 'Is'} ${frameWidth}x${metadata.height} but the canvas is ${config.width}x${config.height}` +
+        (sameAspectRatio ? ' - it will be scaled' : ' - it will be distorted')
+      );
+    }
+  }
+
+  if (needsTransparency(layer, layerIndex)) {
+    if (!metadata.hasAlpha) {
+      issue('error', 'Has no alpha channel, so it will cover every layer below it');
+    } else if (isOpaque) {
+      issue('warning', 'Has an alpha channel but no transparent pixels');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a single SVG layer asset: parsability, embedded scripts and aspect ratio
+ */
+async function lintSVGAsset(config: NFTConfig, layer: LayerConfig, filePath: string): Promise<AssetLintIssue[]> {
+  const issues: AssetLintIssue[] = [];
+  const issue = (severity: AssetLintIssue['severity'], message: string) =>
+    issues.push({ severity, layer: layer.name, file: path.basename(filePath), message });
+
+  const svg = await fs.readFile(filePath, 'utf8');
+  let size: { width: number; height: number };
+  try {
+    size = parseSVGAsset(svg);
+  } catch (error) {
+    issue('error', `Cannot be parsed: ${error instanceof Error ? error.message : String(error)}`);
+    return issues;
+  }
+
+  if (hasUnsafeSVGContent(svg)) {
+    issue('warning', 'Contains scripts, event handlers or embedded HTML, which are stripped when composing');
+  }
+
+  // Vectors scale without loss, only a different aspect ratio matters
+  if (layer.size !== 'natural' && size.width * config.height !== size.height * config.width) {
+    issue('error', `Is ${size.width}x${size.height} but the canvas is ${config.width}x${config.height} - it will be distorted`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the layer assets of a config before generating anything
+ */
+export async function lintLayerAssets(config: NFTConfig): Promise<AssetLintReport> {
+  const issues: AssetLintIssue[] = [];
+  let checkedFiles = 0;
+
+  for (const [index, layer] of config.layers.entries()) {
+    if (!fs.existsSync(layer.folder)) {
+      issues.push({
+        severity: layer.required ? 'error' : 'warning',
+        layer: layer.name,
+        message: `Folder does not exist: ${layer.folder}`
+      });
+      continue;
+    }
+
+    const entries = (await fs.readdir(layer.folder, { withFileTypes: true })).filter(entry => !entry.name.startsWith('.'));
+    const files = entries.filter(entry => !entry.isDirectory()).map(entry => entry.name);
+    const assetFiles = files.filter(file => /\.(png|svg)$/i.test(file));
+
+    // Folders are animated traits, one PNG per frame
+    const frameFolders = new Map<string, string[]>();
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const frames = (await fs.readdir(path.join(layer.folder, entry.name))).filter(file => file.toLowerCase().endsWith('.png'));
+      if (frames.length === 0) {
+        issues.push({ severity: 'warning', layer: layer.name, file: `${entry.name}/`, message: 'Frame folder has no PNG frames and will be ignored' });
+      } else {
+        frameFolders.set(entry.name, frames);
+      }
+    }
+
+    // Generation silently ignores everything that isn't a PNG or SVG
+    for (const file of files.filter(file => !assetFiles.includes(file))) {
+      issues.push({ severity: 'warning', layer: layer.name, file, message: 'Is not a PNG or SVG and will be ignored' });
+    }
+
+    if (assetFiles.length === 0 && frameFolders.size === 0) {
+      issues.push({
+        severity: layer.required ? 'error' : 'warning',
+        layer: layer.name,
+        message: layer.required ? 'Layer is required but has no assets' : 'Layer has no assets and will be skipped'
+      });
+      continue;
+    }
+
+    // "rare.png" and "rare#5.png" both become the trait "rare"
+    const filesByTrait = new Map<string, string[]>();
+    for (const file of [...assetFiles, ...frameFolders.keys()]) {
+      const { trait } = parseTraitFileName(frameFolders.has(file) ? file : file.replace(/\.[^/.]+$/, ''));
+      filesByTrait.set(trait, [...(filesByTrait.get(trait) || []), file]);
+    }
+    for (const [trait, traitFiles] of filesByTrait) {
+      if (traitFiles.length > 1) {
+        issues.push({
+          severity: 'error',
+          layer: layer.name,
+          message: `Duplicate trait name "${trait}" in ${traitFiles.join(', ')}`
+        });
+      }
+    }
+
+    for (const trait of Object.keys(layer.weights || {})) {
+      if (!filesByTrait.has(trait)) {
+        issues.push({ severity: 'warning', layer: layer.name, message: `Weight configured for unknown trait "${trait}"` });
+      }
+    }
+
+    for (const file of assetFiles) {
+      checkedFiles++;
+      issues.push(...file.toLowerCase().endsWith('.svg')
+        ? await lintSVGAsset(config, layer, path.join(layer.folder, file))
+        : await lintAsset(config, layer, index, path.join(layer.folder, file)));
+    }
+    for (const [folder, frames] of frameFolders) {
+      for (const frame of frames) {
+        checkedFiles++;
+        issues.push(...await lintAsset(config, layer, index, path.join(layer.folder, folder, frame), true));
+      }
+    }
+  }
+
+  return {
+    collectionName: config.collectionName,
+    checkedFiles,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues
+  };
+}
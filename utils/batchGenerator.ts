@@ -0,0 +1,268 @@
+import fs from 'fs-extra';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { createTokenRandom, createUniqueCombination, generateNFT, NFTConfig } from './nftGenerator';
+import { loadDNARegistry, registerDNA, saveDNARegistry } from './dnaRegistry';
+import { getOneOfOne } from './oneOfOnes';
+import { assertTokenWritable } from './tokenHistory';
+import type { WorkerResult, WorkerTask } from './nftWorker';
+
+export interface BatchProgress {
+  completed: number;
+  failed: number;
+  total: number;
+  tokenId: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number;  // Number of worker threads, 0 renders on the calling thread - so does a build without tsx
+  overwrite?: boolean;  // Regenerate tokens whose image and metadata already exist - frozen and provenance-locked tokens are never touched
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchResult {
+  generated: Array<{ tokenId: number; imagePath: string; metadataPath: string; renditionPaths: string[] }>;
+  skipped: number[];
+  failed: Array<{ tokenId: number; error: string }>;
+}
+
+// Worker entry point, loaded from the project sources because bundlers don't emit it
+const WORKER_FILE = path.join(process.cwd(), 'utils', 'nftWorker.ts');
+
+/**
+ * Resolve the tsx loader that lets a worker thread run the TypeScript entry point, or null when workers can't start
+ */
+function resolveWorkerLoader(): string | null {
+  if (!fs.existsSync(WORKER_FILE)) {
+    return null;
+  }
+
+  try {
+    return createRequire(path.join(process.cwd(), 'package.json')).resolve('tsx/cjs');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the tokens of a range whose image and metadata are already on disk, e.g. from an interrupted run
+ */
+async function loadCompletedTokens(outputDir: string, from: number, to: number): Promise<Set<number>> {
+  const completed = new Set<number>();
+
+  for (let tokenId = from; tokenId <= to; tokenId++) {
+    if (
+      (await fs.pathExists(path.join(outputDir, 'images', `${tokenId}.png`))) &&
+      (await fs.pathExists(path.join(outputDir, 'metadata', `${tokenId}.json`)))
+    ) {
+      completed.add(tokenId);
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Generate every token from "from" to "to" (inclusive) using a pool of worker threads
+ *
+ * Combinations are rolled on the calling thread in token order against the DNA registry, exactly
+ * like single-token generation does, so the output is the same as calling generateNFT per token.
+ */
+export async function generateRange(
+  from: number,
+  to: number,
+  config: NFTConfig,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < from) {
+    throw new Error(`Invalid token range ${from}-${to}`);
+  }
+
+  const concurrency = options.concurrency ?? Math.max(1, os.cpus().length - 1);
+  await fs.ensureDir(config.outputDir);
+
+  const completed = options.overwrite
+    ? new Set<number>()
+    : await loadCompletedTokens(config.outputDir, from, to);
+
+  if (completed.size > 0) {
+    console.log(`Skipping ${completed.size} tokens of batch ${from}-${to} that were already generated`);
+  }
+
+  // Refuse the whole batch before anything is rolled or written
+  for (let tokenId = from; tokenId <= to; tokenId++) {
+    if (!completed.has(tokenId)) {
+      await assertTokenWritable(config.outputDir, tokenId, 'regenerated');
+    }
+  }
+
+  // Roll all combinations up front so workers never race on the DNA registry
+  const registry = loadDNARegistry(config);
+  const tasks: WorkerTask[] = [];
+  for (let tokenId = from; tokenId <= to; tokenId++) {
+    if (completed.has(tokenId)) {
+      continue;
+    }
+    
+    // One-of-ones with their own artwork have nothing to roll
+    if (getOneOfOne(config, tokenId)?.imageFile) {
+      tasks.push({ tokenId, config });
+      continue;
+    }
+
+    const combination = createUniqueCombination(config, tokenId, registry, createTokenRandom(config, tokenId));
+    registerDNA(registry, combination.dna, tokenId);
+    tasks.push({ tokenId, config, combination });
+  }
+  saveDNARegistry(config.outputDir, registry);
+
+  const result: BatchResult = {
+    generated: [],
+    skipped: Array.from(completed).sort((a, b) => a - b),
+    failed: []
+  };
+  const total = to - from + 1;
+
+  const handleResult = async (message: WorkerResult) => {
+    if (message.type === 'done') {
+      completed.add(message.tokenId);
+      result.generated.push({
+        tokenId: message.tokenId,
+        imagePath: message.imagePath,
+        metadataPath: message.metadataPath,
+        renditionPaths: message.renditionPaths
+      });
+    } else {
+      console.error(`Error generating NFT #${message.tokenId}:`, message.error);
+      result.failed.push({ tokenId: message.tokenId, error: message.error });
+    }
+
+    options.onProgress?.({
+      completed: completed.size,
+      failed: result.failed.length,
+      total,
+      tokenId: message.tokenId
+    });
+  };
+
+  const workerLoader = concurrency > 0 ? resolveWorkerLoader() : null;
+  if (concurrency > 0 && !workerLoader) {
+    console.warn(`Cannot start worker threads without ${WORKER_FILE} and tsx, rendering on this thread`);
+  }
+
+  if (!workerLoader) {
+    // Render on this thread, mostly useful for debugging
+    for (const task of tasks) {
+      try {
+        const generated = await generateNFT(task.tokenId, task.config, { combination: task.combination });
+        await handleResult({ type: 'done', tokenId: task.tokenId, ...generated });
+      } catch (error) {
+        await handleResult({ type: 'error', tokenId: task.tokenId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } else {
+    await runWorkerPool(tasks, Math.min(concurrency, tasks.length), workerLoader, handleResult);
+  }
+
+  console.log(`Batch ${from}-${to} done: ${result.generated.length} generated, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+  return result;
+}
+
+/**
+ * Hand out tasks to a pool of workers, one task per worker at a time
+ *
+ * A worker that crashes or exits fails only the token it was rendering and is replaced, so the rest
+ * of the range goes on and a later run can retry that token.
+ */
+function runWorkerPool(
+  tasks: WorkerTask[],
+  size: number,
+  loader: string,
+  onResult: (message: WorkerResult) => Promise<void>
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let next = 0;
+    let settled = false;
+    // Task each live worker is rendering, null while it is idle
+    const inFlight = new Map<Worker, WorkerTask | null>();
+
+    const finish = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      inFlight.forEach((_, worker) => worker.terminate());
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const finishIfIdle = () => {
+      if (next >= tasks.length && Array.from(inFlight.values()).every(task => task === null)) {
+        finish();
+      }
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (settled) {
+        return;
+      }
+      if (next >= tasks.length) {
+        finishIfIdle();
+        return;
+      }
+      const task = tasks[next++];
+      inFlight.set(worker, task);
+      worker.postMessage(task);
+    };
+
+    const handleCrash = (worker: Worker, error: string) => {
+      // "exit" follows "error", and terminating the pool exits every worker
+      if (settled || !inFlight.has(worker)) {
+        return;
+      }
+      const task = inFlight.get(worker);
+      inFlight.delete(worker);
+
+      const reported = task ? onResult({ type: 'error', tokenId: task.tokenId, error }) : Promise.resolve();
+      reported
+        .then(() => {
+          if (next < tasks.length) {
+            dispatch(spawn());
+          } else {
+            finishIfIdle();
+          }
+        })
+        .catch(finish);
+    };
+
+    const spawn = () => {
+      // Plain worker threads can't load TypeScript, so the loader is registered before the entry point
+      const worker = new Worker(`require(${JSON.stringify(loader)}); require(${JSON.stringify(WORKER_FILE)});`, { eval: true });
+      inFlight.set(worker, null);
+
+      worker.on('message', (message: WorkerResult) => {
+        inFlight.set(worker, null);
+        onResult(message)
+          .then(() => dispatch(worker))
+          .catch(finish);
+      });
+      worker.on('error', error => handleCrash(worker, `Worker crashed: ${error.message}`));
+      worker.on('exit', code => handleCrash(worker, `Worker exited with code ${code}`));
+
+      return worker;
+    };
+
+    const workers = Array.from({ length: size }, spawn);
+    if (tasks.length === 0) {
+      finish();
+      return;
+    }
+
+    workers.forEach(dispatch);
+  });
+}
@@ -0,0 +1,454 @@
+import Ajv, { ErrorObject } from 'ajv';
+import fs from 'fs-extra';
+import path from 'path';
+import type { NFTConfig } from './nftGenerator';
+import { LOCALE_PATTERN } from './localization';
+import { COLLECTION_FILE } from './random';
+import { findTemplateErrors } from './templates';
+
+// Folder that holds one sub-folder per collection
+export const COLLECTIONS_FOLDER = 'public/collections';
+
+/**
+ * Contents of a collection's collection.json - the generator config without the machine-specific parts
+ *
+ * Every field left out falls back to the default config.
+ */
+export interface CollectionFile extends Partial<Omit<NFTConfig, 'collectionName' | 'outputDir' | 's3Endpoint' | 's3BucketName'>> {
+  name: string;  // Display name, written into the metadata of every token
+  description: string;
+  storagePrefix?: string;  // Storage folder of the collection, defaults to "collections/<folder>"
+}
+
+// Relative key prefix without leading or trailing slash, e.g. "collections/dogs"
+const STORAGE_PREFIX_PATTERN = '^(?!.*\\.\\.)[A-Za-z0-9_-]+(/[A-Za-z0-9_.-]+)*$';
+
+const RENDER_OPTION_PROPERTIES = {
+  blendMode: { type: 'string' },
+  opacity: { type: 'number', minimum: 0, maximum: 1 },
+  offsetX: { type: 'number' },
+  offsetY: { type: 'number' },
+  scale: { type: 'number', exclusiveMinimum: 0 },
+  rotation: { type: 'number' },
+  zIndex: { type: 'number' },
+  size: { enum: ['canvas', 'natural'] }
+};
+
+const TRAIT_REF_SCHEMA = {
+  type: 'object',
+  required: ['layer', 'trait'],
+  additionalProperties: false,
+  properties: {
+    layer: { type: 'string', minLength: 1 },
+    trait: { type: 'string', minLength: 1 }
+  }
+};
+
+/**
+ * JSON schema of collection.json
+ *
+ * Unknown fields are rejected, a typo would otherwise silently fall back to the default.
+ */
+export const COLLECTION_FILE_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    nameTemplate: { type: 'string', minLength: 1 },
+    namePool: { type: 'array', minItems: 1, uniqueItems: true, items: { type: 'string', minLength: 1 } },
+    seed: { type: 'string', minLength: 1 },
+    storagePrefix: { type: 'string', pattern: STORAGE_PREFIX_PATTERN },
+    width: { type: 'integer', minimum: 1 },
+    height: { type: 'integer', minimum: 1 },
+    maxSupply: { type: 'integer', minimum: 1 },
+    uniqueDNA: { type: 'boolean' },
+    layers: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'folder', 'required'],
+        additionalProperties: false,
+        properties: {
+          ...RENDER_OPTION_PROPERTIES,
+          name: { type: 'string', minLength: 1 },
+          folder: { type: 'string', minLength: 1 },
+          required: { type: 'boolean' },
+          weights: { type: 'object', additionalProperties: { type: 'number', minimum: 0 } },
+          linkedTo: { type: 'string', minLength: 1 },
+          traitOptions: {
+            type: 'object',
+            additionalProperties: { type: 'object', additionalProperties: false, properties: RENDER_OPTION_PROPERTIES }
+          },
+          transparent: { type: 'boolean' },
+          spriteFrames: { type: 'integer', minimum: 1 }
+        }
+      }
+    },
+    rules: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        incompatible: { type: 'array', items: { type: 'array', minItems: 2, maxItems: 2, items: TRAIT_REF_SCHEMA } },
+        requires: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['trait', 'with'],
+            additionalProperties: false,
+            properties: { trait: TRAIT_REF_SCHEMA, with: TRAIT_REF_SCHEMA }
+          }
+        },
+        conditionalLayers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['layer', 'when'],
+            additionalProperties: false,
+            properties: { layer: { type: 'string', minLength: 1 }, when: { type: 'array', minItems: 1, items: TRAIT_REF_SCHEMA } }
+          }
+        }
+      }
+    },
+    rarityLayer: { type: 'string', minLength: 1 },
+    textOverlays: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['template'],
+        additionalProperties: false,
+        properties: {
+          template: { type: 'string', minLength: 1 },
+          fontFamily: { type: 'string' },
+          fontWeight: { type: 'string' },
+          fontSize: { type: 'number', exclusiveMinimum: 0 },
+          color: { type: 'string' },
+          strokeColor: { type: 'string' },
+          strokeWidth: { type: 'number', minimum: 0 },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          align: { enum: ['left', 'center', 'right'] },
+          timeZone: { type: 'string' }
+        }
+      }
+    },
+    qrBadge: {
+      type: 'object',
+      required: ['url'],
+      additionalProperties: false,
+      properties: {
+        url: { type: 'string', minLength: 1 },
+        size: { type: 'integer', minimum: 1 },
+        x: { type: 'number' },
+        y: { type: 'number' },
+        margin: { type: 'number', minimum: 0 },
+        color: { type: 'string' },
+        backgroundColor: { type: 'string' },
+        errorCorrection: { enum: ['L', 'M', 'Q', 'H'] },
+        showCode: { type: 'boolean' },
+        fontFamily: { type: 'string', minLength: 1 }
+      }
+    },
+    animation: {
+      type: 'object',
+      required: ['format'],
+      additionalProperties: false,
+      properties: {
+        format: { enum: ['gif', 'apng'] },
+        frameDuration: { type: 'integer', minimum: 1 },
+        loop: { type: 'integer', minimum: 0 },
+        posterFrame: { type: 'integer', minimum: 0 }
+      }
+    },
+    outputFormat: { enum: ['png', 'svg'] },
+    fontsFolder: { type: 'string', minLength: 1 },
+    renditions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'format'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },  // Becomes a folder under images/
+          format: { enum: ['png', 'webp', 'avif', 'jpeg'] },
+          size: { type: 'integer', minimum: 1 },
+          quality: { type: 'integer', minimum: 1, maximum: 100 },
+          thumbnail: { type: 'boolean' }
+        }
+      }
+    },
+    externalUrl: { type: 'string', pattern: '^https?://' },
+    backgroundColor: { type: 'string', pattern: '^[0-9a-fA-F]{6}$' },
+    youtubeUrl: { type: 'string', pattern: '^https?://' },
+    // Ranges and display types are checked by validateStatTraits, which knows about dates
+    statTraits: {
+      type: 'array',
+      items: { type: 'object', required: ['name', 'min', 'max'], properties: { name: { type: 'string', minLength: 1 } } }
+    },
+    oneOfOnes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['metadataFile'],
+        additionalProperties: false,
+        properties: {
+          metadataFile: { type: 'string', minLength: 1 },
+          imageFile: { type: 'string', minLength: 1 },
+          tokenId: { type: 'integer', minimum: 1 }
+        }
+      }
+    },
+    locales: {
+      type: 'object',
+      propertyNames: { pattern: LOCALE_PATTERN.source },
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          nameTemplate: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          traitTypes: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } },
+          traitValues: {
+            type: 'object',
+            additionalProperties: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Patterns explained in words, keyed by the field they apply to
+const PATTERN_DESCRIPTIONS: Record<string, string> = {
+  '/storagePrefix': 'must be a relative path like "collections/dogs", without leading or trailing slash or ".."',
+  '/externalUrl': 'must start with http:// or https://',
+  '/youtubeUrl': 'must start with http:// or https://',
+  '/backgroundColor': 'must be a six-character hex color without "#"',
+  '/locales': 'must be a lower-case language tag like "ja" or "pt-br"'
+};
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validateSchema = ajv.compile<CollectionFile>(COLLECTION_FILE_SCHEMA);
+
+/**
+ * Turn a schema error into a message that names the offending field
+ */
+function describeSchemaError(error: ErrorObject): string {
+  const location = error.instancePath || '/';
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `${location} has unknown field "${error.params.additionalProperty}"`;
+    case 'enum':
+      return `${location} must be one of ${(error.params.allowedValues as unknown[]).map(value => `"${value}"`).join(', ')}`;
+    case 'pattern':
+      // Invalid keys, e.g. of locales, are reported by name
+      return `${location}${error.propertyName ? ` key "${error.propertyName}"` : ''} ${PATTERN_DESCRIPTIONS[location] || error.message}`;
+    case 'required':
+      return `${location} is missing required field "${error.params.missingProperty}"`;
+    default:
+      return `${location} ${error.message}`;
+  }
+}
+
+/**
+ * Checks that need more than one field, e.g. references between layers, and the templates
+ */
+function findReferenceErrors(file: CollectionFile): string[] {
+  const errors: string[] = [];
+  const layerNames = (file.layers || []).map(layer => layer.name);
+
+  for (const [index, layer] of (file.layers || []).entries()) {
+    if (layerNames.indexOf(layer.name) !== index) {
+      errors.push(`/layers/${index}/name "${layer.name}" is used by more than one layer`);
+    }
+    // Linked layers reuse a trait that has already been rolled
+    if (layer.linkedTo && !layerNames.slice(0, index).includes(layer.linkedTo)) {
+      errors.push(`/layers/${index}/linkedTo "${layer.linkedTo}" must name an earlier layer`);
+    }
+  }
+
+  const templates: Array<[string, string]> = [
+    ['/description', file.description],
+    ...(file.nameTemplate ? [['/nameTemplate', file.nameTemplate] as [string, string]] : []),
+    ...(file.textOverlays || []).map((overlay, index) => [`/textOverlays/${index}/template`, overlay.template] as [string, string]),
+    ...Object.entries(file.locales || {}).flatMap(([locale, translation]) => [
+      ...(translation.nameTemplate ? [[`/locales/${locale}/nameTemplate`, translation.nameTemplate] as [string, string]] : []),
+      ...(translation.description !== undefined ? [[`/locales/${locale}/description`, translation.description] as [string, string]] : [])
+    ])
+  ];
+  for (const [location, template] of templates) {
+    errors.push(...findTemplateErrors(template).map(error => `${location} ${error}`));
+    if (template.includes('{poolName}') && !file.namePool) {
+      errors.push(`${location} uses "{poolName}" but there is no namePool`);
+    }
+  }
+
+  // Without its own layers the collection uses the default ones, which are checked elsewhere
+  if (file.layers && file.rarityLayer && !layerNames.includes(file.rarityLayer)) {
+    errors.push(`/rarityLayer "${file.rarityLayer}" is not one of the layers`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the contents of a collection.json, returning readable errors (empty when valid)
+ */
+export function validateCollectionFile(data: unknown): string[] {
+  if (!validateSchema(data)) {
+    // The pattern error of an invalid key already says everything its propertyNames error would
+    return (validateSchema.errors || []).filter(error => error.keyword !== 'propertyNames').map(describeSchemaError);
+  }
+
+  return findReferenceErrors(data);
+}
+
+/**
+ * Throw the validation errors of a collection.json, narrowing its contents when there are none
+ */
+function assertValidCollectionFile(data: unknown, folderName: string): asserts data is CollectionFile {
+  const errors = validateCollectionFile(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${COLLECTION_FILE} for "${folderName}": ${errors.join('; ')}`);
+  }
+}
+
+/**
+ * Local directory of a collection
+ */
+export function getCollectionDir(folderName: string): string {
+  return path.join(process.cwd(), COLLECTIONS_FOLDER, folderName);
+}
+
+/**
+ * Storage folder of a collection, without trailing slash
+ *
+ * Read from the local collection.json when there is one, so deployments without local files use the default.
+ */
+export function getStoragePrefix(folderName: string): string {
+  const { storagePrefix } = readLocalCollectionFile(folderName);
+  if (typeof storagePrefix === 'string' && new RegExp(STORAGE_PREFIX_PATTERN).test(storagePrefix)) {
+    return storagePrefix;
+  }
+
+  return `collections/${folderName}`;
+}
+
+/**
+ * Display name of a collection, read from the local collection.json like getStoragePrefix
+ */
+export function getCollectionName(folderName: string): string {
+  const { name } = readLocalCollectionFile(folderName);
+  return typeof name === 'string' && name.length > 0 ? name : getLegacyName(folderName);
+}
+
+/**
+ * Raw contents of a collection's collection.json, empty when it's missing or unreadable
+ *
+ * For lookups that must keep working without local files - loading the config reports the details.
+ */
+function readLocalCollectionFile(folderName: string): Record<string, unknown> {
+  const collectionFile = path.join(getCollectionDir(folderName), COLLECTION_FILE);
+  const data = fs.existsSync(collectionFile) && fs.readJsonSync(collectionFile, { throws: false });
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+}
+
+/**
+ * Name collections had before collection.json held it, derived from the folder name
+ */
+function getLegacyName(folderName: string): string {
+  return folderName.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Build the collection.json of a new collection from a base config
+ */
+export function createCollectionFile(name: string, description: string, base: NFTConfig): CollectionFile {
+  const settings: Partial<NFTConfig> = { ...base };
+  // Machine-specific, or created on first generation
+  for (const key of ['collectionName', 'outputDir', 's3Endpoint', 's3BucketName', 'seed'] as const) {
+    delete settings[key];
+  }
+  return { ...settings, name, description };
+}
+
+/**
+ * Validate and write a collection.json, keeping the seed of an existing file
+ */
+export async function saveCollectionFile(folderName: string, file: CollectionFile): Promise<string> {
+  const collectionFile = path.join(getCollectionDir(folderName), COLLECTION_FILE);
+  const existing = (await fs.pathExists(collectionFile)) ? await fs.readJson(collectionFile) : {};
+  const contents = { ...file, ...(existing.seed ? { seed: existing.seed } : {}) };
+  assertValidCollectionFile(contents, folderName);
+
+  await fs.ensureDir(path.dirname(collectionFile));
+  await fs.writeJson(collectionFile, contents, { spaces: 2 });
+  return collectionFile;
+}
+
+/**
+ * Read and validate a collection's collection.json
+ *
+ * Collections created before the file held their config only have a seed in it. They get the name and
+ * description that used to be derived from the folder name, written back so the file can be edited.
+ *
+ * @param migrate - Write the name and description back, false leaves the file untouched (e.g. for previews)
+ */
+export async function loadCollectionFile(folderName: string, migrate: boolean = true): Promise<CollectionFile> {
+  const collectionDir = getCollectionDir(folderName);
+  const collectionFile = path.join(collectionDir, COLLECTION_FILE);
+
+  if (!(await fs.pathExists(collectionDir))) {
+    throw new Error(`Collection "${folderName}" does not exist`);
+  }
+
+  let data: unknown = {};
+  if (await fs.pathExists(collectionFile)) {
+    try {
+      data = JSON.parse(await fs.readFile(collectionFile, 'utf8'));
+    } catch (error) {
+      throw new Error(`${COLLECTION_FILE} of "${folderName}" is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  let isLegacy = false;
+  if (data && typeof data === 'object' && !Array.isArray(data) && !('name' in data) && !('description' in data)) {
+    isLegacy = true;
+    data = {
+      name: getLegacyName(folderName),
+      description: `Part of the ${folderName.replace(/-/g, ' ')} collection`,
+      ...data
+    };
+  }
+
+  assertValidCollectionFile(data, folderName);
+
+  if (isLegacy && migrate) {
+    await saveCollectionFile(folderName, data);
+    console.log(`Wrote the name and description of "${folderName}" to ${collectionFile}`);
+  }
+
+  return data;
+}
+
+/**
+ * Build the generator config of a collection from its collection.json on top of a base config
+ *
+ * @param migrate - See loadCollectionFile
+ */
+export async function loadCollectionConfig(folderName: string, base: NFTConfig, migrate: boolean = true): Promise<NFTConfig> {
+  const file = await loadCollectionFile(folderName, migrate);
+  const settings: Partial<CollectionFile> = { ...file };
+  delete settings.name;
+  delete settings.storagePrefix;
+
+  return {
+    ...base,
+    ...settings,
+    collectionName: file.name,
+    outputDir: getCollectionDir(folderName)
+  };
+}
@@ -0,0 +1,86 @@
+import type { Canvas, CanvasRenderingContext2D, GlobalCompositeOperation, Image } from 'canvas';
+
+// How a layer (or a single trait of it) is drawn onto the canvas
+export interface LayerRenderOptions {
+  blendMode?: GlobalCompositeOperation;  // Canvas globalCompositeOperation, defaults to "source-over"
+  opacity?: number;  // 0 to 1
+  offsetX?: number;  // Pixels from the left edge of the canvas
+  offsetY?: number;  // Pixels from the top edge of the canvas
+  scale?: number;  // Multiplier applied to the drawn size
+  rotation?: number;  // Degrees, clockwise around the center of the drawn image
+  zIndex?: number;  // Draw order, higher is drawn later - defaults to the layer position
+  size?: 'canvas' | 'natural';  // Stretch to the canvas (default) or keep the asset's own size
+}
+
+const RENDER_OPTION_KEYS: Array<keyof LayerRenderOptions> = [
+  'blendMode',
+  'opacity',
+  'offsetX',
+  'offsetY',
+  'scale',
+  'rotation',
+  'zIndex',
+  'size'
+];
+
+/**
+ * Merge the render options of a layer with the overrides of one of its traits
+ */
+export function resolveRenderOptions(
+  layerOptions: LayerRenderOptions,
+  traitOptions?: LayerRenderOptions
+): LayerRenderOptions {
+  const resolved: LayerRenderOptions = {};
+
+  for (const key of RENDER_OPTION_KEYS) {
+    const value = traitOptions?.[key] ?? layerOptions[key];
+    if (value !== undefined) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Sort items by z-index, keeping their original order when no z-index is given
+ *
+ * @param getLayerIndex - Position of the item's layer in the config, the z-index of items without one
+ */
+export function sortByZIndex<T extends { render: LayerRenderOptions }>(
+  items: T[],
+  getLayerIndex: (item: T, index: number) => number = (_, index) => index
+): T[] {
+  return items
+    .map((item, index) => ({ item, z: item.render.zIndex ?? getLayerIndex(item, index), index }))
+    .sort((a, b) => a.z - b.z || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Draw one layer image onto the canvas using its render options
+ */
+export function drawLayer(
+  ctx: CanvasRenderingContext2D,
+  image: Image | Canvas,  // A canvas holds a single frame cut out of a sprite sheet
+  options: LayerRenderOptions,
+  width: number,
+  height: number
+): void {
+  const scale = options.scale ?? 1;
+  const drawWidth = (options.size === 'natural' ? image.width : width) * scale;
+  const drawHeight = (options.size === 'natural' ? image.height : height) * scale;
+  const x = options.offsetX ?? 0;
+  const y = options.offsetY ?? 0;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(Math.max(options.opacity ?? 1, 0), 1);
+  ctx.globalCompositeOperation = options.blendMode ?? 'source-over';
+
+  // Rotate around the center of the image rather than the canvas origin
+  ctx.translate(x + drawWidth / 2, y + drawHeight / 2);
+  ctx.rotate(((options.rotation ?? 0) * Math.PI) / 180);
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+
+  ctx.restore();
+}
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { LayerAttribute, NFTConfig, NFTMetadata } from './nftGenerator';
+import { getImagesByLayer, getImagesForLayer } from './nftGenerator';
+import { getOneOfOne } from './oneOfOnes';
+import { countValidCombinations, isLayerActive } from './traitRules';
+
+// Maps the DNA of every generated combination to the token that owns it
+export type DNARegistry = Record<string, number>;
+
+// File inside a collection output directory that holds the registry
+const DNA_REGISTRY_FILE = 'dna.json';
+
+/**
+ * Hash a trait combination into its DNA string
+ */
+export function computeDNA(attributes: LayerAttribute[]): string {
+  const traits = attributes.map(attr => `${attr.name}=${attr.trait}`).join('|');
+  return crypto.createHash('sha256').update(traits).digest('hex');
+}
+
+/**
+ * Load the DNA registry of a collection, including tokens generated before the registry existed
+ */
+export function loadDNARegistry(config: NFTConfig): DNARegistry {
+  const registryPath = path.join(config.outputDir, DNA_REGISTRY_FILE);
+  const registry: DNARegistry = fs.existsSync(registryPath) ? fs.readJsonSync(registryPath) : {};
+
+  return backfillDNARegistry(config, registry);
+}
+
+/**
+ * Rebuild the layer combination of a token from its metadata attributes, or null when they don't fit the layers
+ */
+function rebuildCombination(config: NFTConfig, metadata: NFTMetadata): LayerAttribute[] | null {
+  const combination: LayerAttribute[] = [];
+
+  for (const layer of config.layers) {
+    if (!isLayerActive(config.rules || {}, layer.name, combination)) {
+      continue;
+    }
+
+    // Linked layers aren't written to the metadata, they carry the trait of their source layer
+    const traitType = layer.linkedTo || layer.name;
+    const value = metadata.attributes?.find(attr => attr.trait_type === traitType)?.value;
+    const image = value === undefined
+      ? undefined
+      : getImagesForLayer(layer).find(candidate => candidate.trait === String(value));
+
+    if (image) {
+      combination.push(image);
+    } else if (layer.required) {
+      return null;
+    }
+  }
+
+  return combination;
+}
+
+/**
+ * Add the tokens in the metadata folder the registry doesn't know about yet
+ *
+ * Metadata written before the registry existed has no "dna" field, its DNA is rebuilt from the
+ * layer attributes. Hand-made one-of-ones and tokens whose traits no longer fit the layers are left out,
+ * and a DNA that already has an owner keeps it.
+ */
+function backfillDNARegistry(config: NFTConfig, registry: DNARegistry): DNARegistry {
+  const metadataDir = path.join(config.outputDir, 'metadata');
+  if (!fs.existsSync(metadataDir)) {
+    return registry;
+  }
+
+  const owners = new Set(Object.values(registry));
+  const tokenIds = fs.readdirSync(metadataDir)
+    .map(file => file.match(/^(\d+)\.json$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1], 10))
+    .filter(tokenId => !owners.has(tokenId) && !getOneOfOne(config, tokenId)?.imageFile)
+    .sort((a, b) => a - b);
+
+  for (const tokenId of tokenIds) {
+    let metadata: NFTMetadata;
+    try {
+      metadata = fs.readJsonSync(path.join(metadataDir, `${tokenId}.json`));
+    } catch (error) {
+      console.warn(`Skipping unreadable metadata of token #${tokenId}:`, error);
+      continue;
+    }
+
+    const combination = metadata.dna ? null : rebuildCombination(config, metadata);
+    const dna = metadata.dna || (combination ? computeDNA(combination) : null);
+    if (dna && registry[dna] === undefined) {
+      registry[dna] = tokenId;
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Persist the DNA registry of a collection
+ */
+export function saveDNARegistry(outputDir: string, registry: DNARegistry): void {
+  fs.ensureDirSync(outputDir);
+  fs.writeJsonSync(path.join(outputDir, DNA_REGISTRY_FILE), registry, { spaces: 2 });
+}
+
+/**
+ * Record the DNA of a token, dropping any DNA it held before (e.g. when a token is regenerated)
+ */
+export function registerDNA(registry: DNARegistry, dna: string, tokenId: number): DNARegistry {
+  for (const [existingDna, owner] of Object.entries(registry)) {
+    if (owner === tokenId) {
+      delete registry[existingDna];
+    }
+  }
+
+  registry[dna] = tokenId;
+  return registry;
+}
+
+/**
+ * Check whether a DNA is already owned by a different token
+ */
+export function isDNATaken(registry: DNARegistry, dna: string, tokenId: number): boolean {
+  return registry[dna] !== undefined && registry[dna] !== tokenId;
+}
+
+/**
+ * Count the distinct trait combinations the layers of a config can produce
+ */
+export function getTraitSpaceSize(config: NFTConfig): number {
+  // With rules only the allowed combinations count, if the space is small enough to enumerate
+  if (config.rules) {
+    const validCombinations = countValidCombinations(config.layers, getImagesByLayer(config), config.rules);
+    if (validCombinations !== null) {
+      return validCombinations;
+    }
+  }
+
+  return config.layers.reduce((size, layer) => {
+    // Linked layers follow the trait of their source layer, so they add no combinations
+    if (layer.linkedTo) {
+      return size;
+    }
+    const images = getImagesForLayer(layer);
+    // Zero-weight traits are never picked, unless every trait in the layer is zero-weight
+    const pickable = images.filter(image => image.weight > 0).length || images.length;
+    // Layers without images are skipped, so they don't multiply the space
+    return pickable > 0 ? size * pickable : size;
+  }, 1);
+}
@@ -0,0 +1,120 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { NFTAttribute, NFTMetadata } from './nftGenerator';
+import { renderTemplate, TemplateContext } from './templates';
+
+// Translations of a collection's texts into one language
+export interface LocaleConfig {
+  nameTemplate?: string;  // Replaces nameTemplate, e.g. "{poolName}・{trait:Subject}"
+  description?: string;  // Replaces the description template
+  traitTypes?: Record<string, string>;  // Trait type labels, e.g. { "Background": "背景" }
+  traitValues?: Record<string, Record<string, string>>;  // Trait value labels keyed by the original trait type, e.g. { "Background": { "rare": "レア" } }
+}
+
+// Lower-case language tag, e.g. "ja" or "pt-br" - it becomes a folder name, so nothing else gets through
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+// Upper bound of languages tried per request, each one costs a storage lookup
+const MAX_REQUESTED_LOCALES = 4;
+
+/**
+ * Storage key of a token's metadata in another language, relative to the collection prefix
+ */
+export function getLocalizedMetadataKey(locale: string, tokenId: number | string): string {
+  return `metadata/${locale}/${tokenId}.json`;
+}
+
+/**
+ * Find the translations of a metadata file, stored as <locale>/<file> next to it
+ */
+export async function findLocalizedMetadata(metadataPath: string): Promise<Array<{ locale: string; path: string }>> {
+  const metadataDir = path.dirname(metadataPath);
+  const localized: Array<{ locale: string; path: string }> = [];
+
+  for (const entry of await fs.readdir(metadataDir, { withFileTypes: true })) {
+    const localizedPath = path.join(metadataDir, entry.name, path.basename(metadataPath));
+    if (entry.isDirectory() && LOCALE_PATTERN.test(entry.name) && await fs.pathExists(localizedPath)) {
+      localized.push({ locale: entry.name, path: localizedPath });
+    }
+  }
+
+  return localized;
+}
+
+/**
+ * Translate a single trait value, numbers and values without a translation are kept
+ */
+function translateValue(locale: LocaleConfig, traitType: string, value: string | number): string | number {
+  return typeof value === 'string' ? locale.traitValues?.[traitType]?.[value] ?? value : value;
+}
+
+/**
+ * Translate the trait types and values of a token, anything without a translation keeps its original label
+ */
+export function translateAttributes(attributes: NFTAttribute[], locale: LocaleConfig): NFTAttribute[] {
+  return attributes.map(attribute => ({
+    ...attribute,
+    trait_type: locale.traitTypes?.[attribute.trait_type] ?? attribute.trait_type,
+    value: translateValue(locale, attribute.trait_type, attribute.value)
+  }));
+}
+
+/**
+ * Build the metadata of a token in another language
+ *
+ * Localized templates see the translated trait values, still keyed by the original trait type, e.g.
+ * "{if:Background=レア}...{/if}". Names and descriptions that didn't come from the templates, like those
+ * of hand-authored one-of-ones, are kept.
+ *
+ * @param context - Template values of the token in the default language
+ * @param generated - Name and description the default templates give the token
+ */
+export function localizeMetadata(
+  metadata: NFTMetadata,
+  locale: LocaleConfig,
+  context: TemplateContext,
+  generated: { name: string; description: string }
+): NFTMetadata {
+  const traits: Record<string, string | number> = {};
+  for (const [traitType, value] of Object.entries(context.traits)) {
+    traits[traitType] = translateValue(locale, traitType, value);
+  }
+  const localize = (text: string, generatedText: string, template?: string) =>
+    template && text === generatedText ? renderTemplate(template, { ...context, traits }).trim() : text;
+
+  return {
+    ...metadata,
+    name: localize(metadata.name, generated.name, locale.nameTemplate),
+    description: localize(metadata.description, generated.description, locale.description),
+    attributes: translateAttributes(metadata.attributes, locale)
+  };
+}
+
+/**
+ * Languages a request asks for, best first - "?locale=" ahead of Accept-Language, each regional tag followed by its language
+ *
+ * Anything that isn't a plain language tag is dropped, as the tags end up in storage keys.
+ */
+export function getRequestedLocales(localeParam: string | null, acceptLanguage: string | null): string[] {
+  const accepted = (acceptLanguage || '')
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.split(';');
+      const quality = params.map(param => param.trim().match(/^q=([\d.]+)$/)).find(Boolean);
+      return { tag, quality: quality ? parseFloat(quality[1]) : 1, index };
+    })
+    .filter(entry => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.tag);
+
+  const locales: string[] = [];
+  for (const tag of [localeParam || '', ...accepted].map(tag => tag.trim().toLowerCase().replace(/_/g, '-'))) {
+    for (const candidate of [tag, tag.split('-')[0]]) {
+      if (LOCALE_PATTERN.test(candidate) && !locales.includes(candidate)) {
+        locales.push(candidate);
+      }
+    }
+  }
+
+  return locales.slice(0, MAX_REQUESTED_LOCALES);
+}
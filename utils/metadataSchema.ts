@@ -0,0 +1,112 @@
+import Ajv from 'ajv';
+import type { NFTMetadata } from './nftGenerator';
+
+// Display types marketplaces understand - all of them need a numeric value
+export const NUMERIC_DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage', 'date'] as const;
+
+/**
+ * JSON schema of the marketplace metadata standard, extended with our own fields
+ *
+ * Unknown top-level fields are allowed, marketplaces ignore what they don't understand.
+ */
+export const NFT_METADATA_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description', 'image', 'attributes'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    image: { type: 'string', minLength: 1 },
+    image_thumbnail: { type: 'string' },
+    external_url: { type: 'string', pattern: '^https?://' },
+    animation_url: { type: 'string', minLength: 1 },
+    youtube_url: { type: 'string', pattern: '^https?://' },
+    background_color: { type: 'string', pattern: '^[0-9a-fA-F]{6}$' },  // Hex without the leading "#"
+    timestamp: { type: 'string' },
+    dna: { type: 'string' },
+    image_hash: { type: 'string', pattern: '^[0-9a-f]{64}$' },  // SHA-256 as hex
+    attributes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['trait_type', 'value'],
+        additionalProperties: false,
+        properties: {
+          trait_type: { type: 'string', minLength: 1 },
+          value: { type: ['string', 'number'] },
+          display_type: { enum: NUMERIC_DISPLAY_TYPES },
+          max_value: { type: 'number' }
+        },
+        allOf: [
+          {
+            if: { required: ['display_type'] },
+            then: { properties: { value: { type: 'number' } } }
+          },
+          {
+            if: { required: ['max_value'] },
+            then: { properties: { value: { type: 'number' } } }
+          },
+          {
+            // Dates are unix timestamps in seconds
+            if: { required: ['display_type'], properties: { display_type: { const: 'date' } } },
+            then: { properties: { value: { type: 'integer' } } }
+          }
+        ]
+      }
+    },
+    properties: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['uri', 'type'],
+            properties: {
+              uri: { type: 'string', minLength: 1 },
+              type: { type: 'string', minLength: 1 }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validateSchema = ajv.compile<NFTMetadata>(NFT_METADATA_SCHEMA);
+
+/**
+ * Check max_value against value - JSON schema can't compare two fields
+ */
+function findMaxValueViolations(metadata: NFTMetadata): string[] {
+  return metadata.attributes
+    .filter(attribute =>
+      attribute.max_value !== undefined && typeof attribute.value === 'number' && attribute.value > attribute.max_value
+    )
+    .map(attribute => `"${attribute.trait_type}" value ${attribute.value} exceeds its max_value ${attribute.max_value}`);
+}
+
+/**
+ * Validate metadata against the schema, returning readable errors (empty when valid)
+ */
+export function validateNFTMetadata(metadata: unknown): string[] {
+  if (validateSchema(metadata)) {
+    return findMaxValueViolations(metadata);
+  }
+
+  return (validateSchema.errors || [])
+    // "if" errors only repeat the failing "then" branch
+    .filter(error => error.keyword !== 'if')
+    .map(error => `${error.instancePath || '/'} ${error.message}`);
+}
+
+/**
+ * Throw when metadata doesn't match the schema, so invalid files are never written or uploaded
+ */
+export function assertValidNFTMetadata(metadata: unknown, label: string): void {
+  const errors = validateNFTMetadata(metadata);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid metadata for ${label}: ${errors.join('; ')}`);
+  }
+}
@@ -1,6 +1,9 @@
 import * as Minio from 'minio';
 import fs from 'fs-extra';
 import path from 'path';
+import { assertValidNFTMetadata } from './metadataSchema';
+import { findLocalizedMetadata } from './localization';
+import type { NFTMetadata } from './nftGenerator';
 
 // MinIO configuration type
 export interface MinioConfig {
@@ -13,6 +16,19 @@ export interface MinioConfig {
   bucketName: string;
 }
 
+// Content types of the files we upload, keyed by extension
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.apng': 'image/apng',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json'
+};
+
 /**
  * Initialize a MinIO client using the provided configuration
  */
@@ -59,12 +75,7 @@ export async function uploadToMinio(
 ): Promise<string | null> {
   try {
     // Determine the content type based on file extension
-    let contentType = 'application/octet-stream';
-    if (filePath.endsWith('.png')) {
-      contentType = 'image/png';
-    } else if (filePath.endsWith('.json')) {
-      contentType = 'application/json';
-    }
+    const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
     
     // Check if bucket exists, create it if not
     const bucketExists = await minioClient.bucketExists(bucketName);
@@ -91,6 +102,84 @@ export async function uploadToMinio(
   }
 }
 
+/**
+ * Download an object from MinIO into a buffer, or null if it cannot be read
+ */
+export async function downloadFromMinio(
+  config: MinioConfig,
+  targetKey: string
+): Promise<Buffer | null> {
+  const minioClient = initializeMinioClient(config);
+  
+  if (!minioClient) {
+    return null;
+  }
+  
+  try {
+    const dataStream = await minioClient.getObject(config.bucketName, targetKey);
+    const chunks: Buffer[] = [];
+    
+    for await (const chunk of dataStream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    
+    return Buffer.concat(chunks);
+  } catch (error) {
+    // Missing objects are expected for optional files like reveal.json
+    if ((error as { code?: string }).code !== 'NoSuchKey') {
+      console.error(`Error downloading ${config.bucketName}/${targetKey}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * List the keys of all objects under a prefix
+ */
+export async function listMinioObjects(config: MinioConfig, prefix: string): Promise<string[]> {
+  const minioClient = initializeMinioClient(config);
+  
+  if (!minioClient) {
+    return [];
+  }
+  
+  const keys: string[] = [];
+  const stream = minioClient.listObjectsV2(config.bucketName, prefix, true);
+  
+  for await (const item of stream) {
+    if (item.name) {
+      keys.push(item.name);
+    }
+  }
+  
+  return keys;
+}
+
+/**
+ * Upload an in-memory buffer to MinIO, returning its public URL or null on failure
+ */
+export async function uploadBufferToMinio(
+  config: MinioConfig,
+  buffer: Buffer,
+  targetKey: string,
+  contentType: string
+): Promise<string | null> {
+  const minioClient = initializeMinioClient(config);
+  
+  if (!minioClient) {
+    return null;
+  }
+  
+  try {
+    await minioClient.putObject(config.bucketName, targetKey, buffer, buffer.length, { 'Content-Type': contentType });
+    console.log(`Uploaded ${config.bucketName}/${targetKey}`);
+    return `https://${config.endPoint}/${config.bucketName}/${targetKey}`;
+  } catch (error) {
+    console.error(`Error uploading ${config.bucketName}/${targetKey}:`, error);
+    return null;
+  }
+}
+
 /**
  * Test connection to MinIO by trying to list buckets
  */
@@ -106,13 +195,48 @@ async function testMinioConnection(minioClient: Minio.Client): Promise<boolean>
   }
 }
 
+/**
+ * Make the relative image, rendition and animation paths of a metadata file absolute, returns whether anything changed
+ */
+function absolutizeMetadataUrls(metadataContent: NFTMetadata, imagesBaseUrl: string): boolean {
+  let updated = false;
+  
+  // If the metadata has a relative image path, update it to absolute URL - it's the SVG for vector collections
+  if (metadataContent.image && !metadataContent.image.startsWith('http')) {
+    metadataContent.image = `${imagesBaseUrl}/${metadataContent.image}`;
+    updated = true;
+  }
+  
+  // Rendition paths are relative to the images folder as well
+  if (metadataContent.image_thumbnail && !metadataContent.image_thumbnail.startsWith('http')) {
+    metadataContent.image_thumbnail = `${imagesBaseUrl}/${metadataContent.image_thumbnail}`;
+    updated = true;
+  }
+  if (metadataContent.animation_url && !/^[a-z]+:/.test(metadataContent.animation_url)) {
+    metadataContent.animation_url = `${imagesBaseUrl}/${metadataContent.animation_url}`;
+    updated = true;
+  }
+  for (const file of metadataContent.properties?.files || []) {
+    if (file.uri && !file.uri.startsWith('http')) {
+      file.uri = `${imagesBaseUrl}/${file.uri}`;
+      updated = true;
+    }
+  }
+  
+  return updated;
+}
+
 /**
  * Upload the NFT image and metadata to MinIO
+ *
+ * @param keyPrefix - Storage prefix of the collection with trailing slash, e.g. "collections/dogs/", empty for the bucket root
  */
 export async function uploadNFTToMinio(
   config: MinioConfig,
   imagePath: string,
-  metadataPath: string
+  metadataPath: string,
+  renditionPaths: string[] = [],  // Extra image files stored relative to the image, e.g. renditions, animations and the SVG
+  keyPrefix: string = ''
 ): Promise<boolean> {
   console.log(`\nAttempting to connect to MinIO at: ${config.endPoint} (Port: ${config.port})`);
   
@@ -145,34 +269,64 @@ export async function uploadNFTToMinio(
     const imageUrl = await uploadToMinio(
       minioClient,
       imagePath,
-      `images/${imageFilename}`,
+      `${keyPrefix}images/${imageFilename}`,
       config.bucketName,
       config.endPoint  // Pass the endpoint for URL generation
     );
+    if (!imageUrl) {
+      throw new Error(`Could not upload ${imageFilename}`);
+    }
     
-    // Check if we need to update the metadata file with the correct absolute URL
-    try {
-      const metadataContent = await fs.readJson(metadataPath);
-      
-      // If the metadata has a relative image path, update it to absolute URL
-      if (metadataContent.image && !metadataContent.image.startsWith('http')) {
-        metadataContent.image = `https://${config.endPoint}/${config.bucketName}/images/${imageFilename}`;
-        await fs.writeJson(metadataPath, metadataContent, { spaces: 2 });
-        console.log('Updated metadata with absolute image URL');
+    // Upload the renditions under the same folder structure as locally
+    const failedRenditions: string[] = [];
+    for (const renditionPath of renditionPaths) {
+      const renditionKey = `${keyPrefix}images/${path.relative(path.dirname(imagePath), renditionPath).split(path.sep).join('/')}`;
+      if (!(await uploadToMinio(minioClient, renditionPath, renditionKey, config.bucketName, config.endPoint))) {
+        failedRenditions.push(renditionKey);
+      }
+    }
+    // The metadata links every rendition, so it isn't uploaded while one of them is missing
+    if (failedRenditions.length > 0) {
+      throw new Error(`Could not upload ${failedRenditions.join(', ')}`);
+    }
+    
+    // Check if we need to update the metadata files with the correct absolute URL
+    const imagesBaseUrl = `https://${config.endPoint}/${config.bucketName}/${keyPrefix}images`;
+    const localizedFiles = await findLocalizedMetadata(metadataPath);
+    for (const file of [metadataPath, ...localizedFiles.map(localized => localized.path)]) {
+      try {
+        const metadataContent = await fs.readJson(file);
+        if (absolutizeMetadataUrls(metadataContent, imagesBaseUrl)) {
+          await fs.writeJson(file, metadataContent, { spaces: 2 });
+          console.log(`Updated ${path.basename(file)} with absolute image URL`);
+        }
+      } catch (err) {
+        console.warn('Could not update metadata with absolute URL:', err);
       }
-    } catch (err) {
-      console.warn('Could not update metadata with absolute URL:', err);
     }
     
-    // Upload metadata
+    // Upload metadata, refusing anything marketplaces would reject
     const metadataFilename = path.basename(metadataPath);
+    assertValidNFTMetadata(await fs.readJson(metadataPath), metadataFilename);
     const metadataUrl = await uploadToMinio(
       minioClient,
       metadataPath,
-      `metadata/${metadataFilename}`,
+      `${keyPrefix}metadata/${metadataFilename}`,
       config.bucketName,
       config.endPoint  // Pass the endpoint for URL generation
     );
+    if (!metadataUrl) {
+      throw new Error(`Could not upload ${metadataFilename}`);
+    }
+    
+    // Translations go to metadata/<locale>/, where the metadata route looks for them
+    for (const localized of localizedFiles) {
+      const localizedKey = `${keyPrefix}metadata/${localized.locale}/${metadataFilename}`;
+      assertValidNFTMetadata(await fs.readJson(localized.path), localizedKey);
+      if (!(await uploadToMinio(minioClient, localized.path, localizedKey, config.bucketName, config.endPoint))) {
+        throw new Error(`Could not upload ${localizedKey}`);
+      }
+    }
     
     console.log('Upload complete!');
     console.log(`Your NFT image should be available at: ${imageUrl}`);
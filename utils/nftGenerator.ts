@@ -1,42 +1,148 @@
-import { createCanvas, loadImage, CanvasRenderingContext2D } from 'canvas';
+import { createCanvas, loadImage, Canvas, Image } from 'canvas';
 import fs from 'fs-extra';
 import path from 'path';
+import { createSeededRandom, RandomSource } from './random';
+import {
+  computeDNA,
+  DNARegistry,
+  getTraitSpaceSize,
+  isDNATaken,
+  loadDNARegistry,
+  registerDNA,
+  saveDNARegistry
+} from './dnaRegistry';
+import {
+  findRuleViolations,
+  getAllowedImages,
+  isLayerActive,
+  TraitRules,
+  validateTraitRules
+} from './traitRules';
+import { drawLayer, LayerRenderOptions, resolveRenderOptions, sortByZIndex } from './compositing';
+import { DEFAULT_FONTS_FOLDER, drawTextOverlays, registerBundledFonts, TextOverlayConfig } from './textOverlay';
+import { createRenditions, RenditionConfig } from './renditions';
+import { assertValidNFTMetadata, NUMERIC_DISPLAY_TYPES } from './metadataSchema';
+import { drawStatBars, rollStatTraits, StatTraitConfig, validateStatTraits } from './statTraits';
+import { hashImage } from './provenance';
+import { embedNFTMetadata } from './pngMetadata';
+import { drawQRBadge, QRBadgeConfig } from './qrBadge';
+import { AnimationConfig, ANIMATION_MIME_TYPES, encodeAnimation, getAnimationRelativePath } from './animation';
+import { composeSVG, rasterizeSVG, SVG_MIME_TYPE } from './svgOutput';
+import { pickPoolName, renderTemplate, TemplateContext } from './templates';
+import { LocaleConfig, localizeMetadata } from './localization';
+import { getOneOfOne, loadOneOfOneImage, loadOneOfOneMetadata, ONE_OF_ONE_RARITY, OneOfOneConfig } from './oneOfOnes';
 
 // Define types for NFT generation
+export type NFTDisplayType = typeof NUMERIC_DISPLAY_TYPES[number];
+
+export interface NFTAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: NFTDisplayType;  // How marketplaces render a numeric value - "date" expects unix seconds
+  max_value?: number;  // Upper bound shown next to "number" values
+}
+
 export interface NFTMetadata {
   name: string;
   description: string;
   image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string;
-  }>;
+  attributes: NFTAttribute[];
   timestamp: string;
+  dna?: string;
+  image_hash?: string;  // SHA-256 of the PNG, the building block of the collection provenance hash
+  image_thumbnail?: string;
+  external_url?: string;  // Page for the token on our own site
+  animation_url?: string;  // Multimedia version of the token, e.g. a GIF or video
+  background_color?: string;  // Six-character hex without "#"
+  youtube_url?: string;
+  properties?: {
+    files?: Array<{
+      uri: string;
+      type: string;
+    }>;
+  };
 }
 
-interface LayerConfig {
+export interface LayerConfig extends LayerRenderOptions {
   name: string;
   folder: string;
   required: boolean;
+  weights?: Record<string, number>;  // Optional per-trait weights, take precedence over "trait#weight.png" file names
+  linkedTo?: string;  // Name of an earlier layer - this layer uses the trait with the same name instead of rolling its own
+  traitOptions?: Record<string, LayerRenderOptions>;  // Per-trait overrides of the layer's render options
+  transparent?: boolean;  // Assets need an alpha channel - defaults to true for every layer but the first
+  spriteFrames?: number;  // Every trait image is a sprite sheet of this many frames side by side
 }
 
-interface NFTConfig {
+export interface NFTConfig {
   collectionName: string;
-  description: string;
+  description: string;  // Supports the placeholders of nameTemplate, e.g. "{if:Background=rare}A rare pup. {/if}"
+  nameTemplate?: string;  // Token name, e.g. "{poolName} the {trait:Subject}" - defaults to "{collectionName} #{tokenId}"
+  namePool?: string[];  // Names for "{poolName}", each handed out once before any name repeats
   width: number;
   height: number;
   outputDir: string;
   layers: LayerConfig[];
   s3Endpoint?: string;  // Add optional S3 endpoint for URL generation
   s3BucketName?: string;  // Add optional bucket name for URL generation
+  seed?: string;  // Collection seed - when set, every token is reproducible from seed + tokenId
+  maxSupply?: number;  // Planned supply, checked against the number of possible trait combinations when uniqueDNA is set
+  uniqueDNA?: boolean;  // Re-roll combinations another token already owns - without it tokens may share traits
+  rules?: TraitRules;  // Exclusions, required companions and conditional layers
+  rarityLayer?: string;  // Layer whose trait is written as the "Rarity" attribute
+  textOverlays?: TextOverlayConfig[];  // Text drawn on top of the layers, e.g. the timestamp
+  qrBadge?: QRBadgeConfig;  // QR code and verification code linking the image to its token
+  animation?: AnimationConfig;  // Write tokens with animated traits as GIF or APNG, linked as animation_url
+  outputFormat?: 'png' | 'svg';  // 'svg' composes SVG layers into one document and rasterizes the PNG from it
+  fontsFolder?: string;  // Fonts registered with node-canvas before rendering
+  renditions?: RenditionConfig[];  // Extra formats and sizes written next to the original PNG
+  externalUrl?: string;  // Written as external_url, "{tokenId}" is replaced with the token ID
+  backgroundColor?: string;  // Written as background_color, six-character hex without "#"
+  youtubeUrl?: string;  // Written as youtube_url
+  statTraits?: StatTraitConfig[];  // Numeric and date traits rolled per token, written after the layer traits
+  oneOfOnes?: OneOfOneConfig[];  // Hand-crafted tokens that take the place of generated ones
+  locales?: Record<string, LocaleConfig>;  // Translations keyed by language tag, written as metadata/<locale>/<id>.json
 }
 
-interface LayerAttribute {
+export interface LayerAttribute {
   name: string;
   trait: string;
   path: string;
+  weight: number;
+  render: LayerRenderOptions;
+  frames?: string[];  // Frame files of a trait stored as a folder of PNGs, in playback order
+  spriteFrames?: number;  // Frames laid out side by side in the trait image
 }
 
+// Traits picked by hand instead of rolled, keyed by layer name
+export type ForcedTraits = Record<string, string>;
+
+// Everything rolled for a token - the layer traits identified by their DNA, plus the stats
+export interface TokenCombination {
+  attributes: LayerAttribute[];
+  dna: string;
+  stats: NFTAttribute[];
+}
+
+// Weight used when neither the config nor the file name specifies one
+const DEFAULT_TRAIT_WEIGHT = 1;
+
+// How many times to re-roll a combination whose DNA is already taken
+const MAX_DNA_ATTEMPTS = 10000;
+
+// How many times to re-roll a combination that runs into a dead end of the trait rules
+const MAX_RULE_ATTEMPTS = 1000;
+
+// Upper bound of decoded layer images kept in memory, the oldest are dropped first
+const MAX_CACHED_LAYER_IMAGES = 200;
+
+// Layer folder listings and decoded layer images, invalidated when the folder or file changes
+const layerFileCache = new Map<string, { mtimeMs: number; files: string[] }>();
+const layerImageCache = new Map<string, { mtimeMs: number; image: Promise<Image> }>();
+
+// Layer folders already reported as missing, so each is only warned about once
+const missingLayerFolders = new Set<string>();
+
 // Default configuration
 export const DEFAULT_CONFIG: NFTConfig = {
   collectionName: "Dog NFT Collection",
@@ -48,41 +154,205 @@ export const DEFAULT_CONFIG: NFTConfig = {
     {
       name: "Background",
       folder: "./public/assets/layers/backgrounds",
-      required: true
+      required: true,
+      weights: {
+        common: 60,
+        limited: 25,
+        rare: 12,
+        unique: 3
+      }
     },
     {
-      name: "Subject",
-      folder: "./public/assets/layers/subjects",
-      required: true
+      name: "Overlay",
+      folder: "./public/assets/layers/overlays",
+      required: true,
+      linkedTo: "Background"
     }
+  ],
+  rarityLayer: "Background",
+  textOverlays: [
+    {
+      template: "{timestamp}",
+      fontFamily: "Noto Sans Mono",
+      fontWeight: "500",
+      fontSize: 30,
+      color: "white",
+      strokeColor: "black",
+      strokeWidth: 3,
+      y: 50,
+      align: "center"
+    }
+  ],
+  fontsFolder: DEFAULT_FONTS_FOLDER,
+  renditions: [
+    { name: "thumbnail", format: "webp", size: 256, quality: 80, thumbnail: true },
+    { name: "preview", format: "webp", size: 512, quality: 85 },
+    { name: "avif", format: "avif", quality: 60 }
+  ],
+  // Same stats as our curated dogs in public/assets/metadata
+  statTraits: [
+    { name: "Shedding", min: 1, max: 5 },
+    { name: "Affectionate", min: 1, max: 5, distribution: "normal" },
+    { name: "Playfulness", min: 1, max: 5, distribution: "normal" },
+    { name: "Floof", min: 50, max: 100, displayType: "boost_number", weights: { "100": 1, "90": 2, "80": 3, "70": 3, "60": 2, "50": 1 } },
+    { name: "Birthday", min: "2015-01-01", max: "2024-12-31", displayType: "date" }
   ]
 };
 
+// Name of the attribute that holds the rarity tier
+export const RARITY_TRAIT_TYPE = "Rarity";
+
+/**
+ * Split a layer file name such as "rare#5" into its trait name and weight
+ */
+export function parseTraitFileName(fileName: string): { trait: string; weight?: number } {
+  const match = fileName.match(/^(.*)#(\d+(?:\.\d+)?)$/);
+  
+  if (!match) {
+    return { trait: fileName };
+  }
+  
+  return { trait: match[1], weight: parseFloat(match[2]) };
+}
+
+/**
+ * List the PNG and SVG files of a layer folder, re-reading it only when the folder changed
+ *
+ * Sub-folders hold the frames of animated traits and are listed with a trailing "/". The list is sorted by name.
+ */
+function listLayerFiles(folder: string): string[] {
+  const { mtimeMs } = fs.statSync(folder);
+  const cached = layerFileCache.get(folder);
+  
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.files;
+  }
+  
+  const files = fs.readdirSync(folder, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() ? !entry.name.startsWith('.') : /\.(png|svg)$/i.test(entry.name))
+    .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+    // Directory order differs between filesystems, weighted picks need a fixed order to be reproducible
+    .sort((a, b) => a.localeCompare(b, 'en'));
+  layerFileCache.set(folder, { mtimeMs, files });
+  
+  return files;
+}
+
+/**
+ * List the frames of an animated trait folder in playback order, e.g. 1.png, 2.png, ..., 10.png
+ */
+function listFrameFiles(folder: string): string[] {
+  return fs.readdirSync(folder)
+    .filter(file => file.toLowerCase().endsWith(".png"))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(file => path.join(folder, file));
+}
+
+/**
+ * Load a layer image, decoding each file only once as long as it doesn't change
+ */
+export async function loadLayerImage(imagePath: string): Promise<Image> {
+  const { mtimeMs } = await fs.stat(imagePath);
+  const cached = layerImageCache.get(imagePath);
+  
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.image;
+  }
+  
+  const image = loadImage(imagePath);
+  // Don't keep failed decodes around
+  image.catch(() => layerImageCache.delete(imagePath));
+  
+  layerImageCache.delete(imagePath);
+  layerImageCache.set(imagePath, { mtimeMs, image });
+  
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (layerImageCache.size > MAX_CACHED_LAYER_IMAGES) {
+    const oldest = layerImageCache.keys().next().value;
+    if (oldest !== undefined) {
+      layerImageCache.delete(oldest);
+    }
+  }
+  
+  return image;
+}
+
+/**
+ * Number of frames a token animates through - the longest animated trait sets the length
+ */
+export function getFrameCount(attributes: LayerAttribute[]): number {
+  return Math.max(1, ...attributes.map(attr => attr.frames?.length ?? attr.spriteFrames ?? 1));
+}
+
+/**
+ * Load one frame of a layer image, cutting it out of the sprite sheet or picking it from the frame folder
+ */
+async function loadLayerFrame(layer: LayerAttribute, frame: number): Promise<Image | Canvas> {
+  if (layer.frames) {
+    return loadLayerImage(layer.frames[frame % layer.frames.length]);
+  }
+  
+  const image = await loadLayerImage(layer.path);
+  if (!layer.spriteFrames) {
+    return image;
+  }
+  
+  const frameWidth = Math.floor(image.width / layer.spriteFrames);
+  const frameCanvas = createCanvas(frameWidth, image.height);
+  frameCanvas.getContext('2d').drawImage(
+    image,
+    (frame % layer.spriteFrames) * frameWidth, 0, frameWidth, image.height,
+    0, 0, frameWidth, image.height
+  );
+  return frameCanvas;
+}
+
 /**
  * Get all available images for a layer
  */
 export function getImagesForLayer(layerConfig: LayerConfig): LayerAttribute[] {
-  let images: LayerAttribute[] = [];
+  const images: LayerAttribute[] = [];
   
   // Check if the layer folder exists
   if (!fs.existsSync(layerConfig.folder)) {
-    console.log(`Warning: Folder does not exist: ${layerConfig.folder}`);
+    if (!missingLayerFolders.has(layerConfig.folder)) {
+      missingLayerFolders.add(layerConfig.folder);
+      console.warn(`Layer "${layerConfig.name}" is left out, its folder does not exist: ${layerConfig.folder}`);
+    }
     return images;
   }
 
   // Get all image files in the folder
-  const files = fs.readdirSync(layerConfig.folder)
-    .filter(file => file.toLowerCase().endsWith(".png"));
+  const files = listLayerFiles(layerConfig.folder);
   
   // Process each file
   files.forEach(file => {
-    const fileName = file.replace(/\.[^/.]+$/, ""); // Remove file extension
+    const isFrameFolder = file.endsWith('/');
+    const fileName = isFrameFolder ? file.slice(0, -1) : file.replace(/\.[^/.]+$/, ""); // Remove file extension
+    const { trait, weight: fileWeight } = parseTraitFileName(fileName);
+    const frames = isFrameFolder ? listFrameFiles(path.join(layerConfig.folder, fileName)) : undefined;
+    
+    if (frames?.length === 0) {
+      console.log(`Warning: Frame folder has no PNG frames: ${path.join(layerConfig.folder, fileName)}`);
+      return;
+    }
+    
+    // Config weights win over the weight encoded in the file name
+    const weight = layerConfig.weights?.[trait] ?? fileWeight ?? DEFAULT_TRAIT_WEIGHT;
+    
+    if (!(weight >= 0)) {
+      throw new Error(`Invalid weight ${weight} for trait "${trait}" in layer "${layerConfig.name}"`);
+    }
     
     // Add the image to our collection
     images.push({
       name: layerConfig.name,
-      trait: fileName,
-      path: path.join(layerConfig.folder, file)
+      trait,
+      path: path.join(layerConfig.folder, isFrameFolder ? fileName : file),
+      weight,
+      render: resolveRenderOptions(layerConfig, layerConfig.traitOptions?.[trait]),
+      ...(frames ? { frames } : {}),
+      ...(!frames && layerConfig.spriteFrames && layerConfig.spriteFrames > 1 ? { spriteFrames: layerConfig.spriteFrames } : {})
     });
   });
   
@@ -90,10 +360,116 @@ export function getImagesForLayer(layerConfig: LayerConfig): LayerAttribute[] {
 }
 
 /**
- * Create a random combination of layers for the NFT
+ * Pick one image from a layer, with probability proportional to its weight
  */
-export function createRandomCombination(config: NFTConfig): LayerAttribute[] {
-  let combination: LayerAttribute[] = [];
+export function pickWeightedImage(images: LayerAttribute[], random: number): LayerAttribute {
+  const totalWeight = images.reduce((sum, image) => sum + image.weight, 0);
+  
+  // All weights zero - nothing is more likely than anything else
+  if (totalWeight <= 0) {
+    return images[Math.floor(random * images.length)];
+  }
+  
+  let threshold = random * totalWeight;
+  for (const image of images) {
+    threshold -= image.weight;
+    if (threshold < 0) {
+      return image;
+    }
+  }
+  
+  // Guard against floating point drift on the last bucket, never falling back to a zero-weight trait
+  return images.filter(image => image.weight > 0).pop() as LayerAttribute;
+}
+
+/**
+ * Get the images of every layer, keyed by layer name
+ */
+export function getImagesByLayer(config: NFTConfig): Record<string, LayerAttribute[]> {
+  const imagesByLayer: Record<string, LayerAttribute[]> = {};
+  for (const layer of config.layers) {
+    imagesByLayer[layer.name] = getImagesForLayer(layer);
+  }
+  return imagesByLayer;
+}
+
+/**
+ * Make sure the trait rules of a config can be satisfied, throwing a readable error otherwise
+ */
+export function validateConfigRules(config: NFTConfig): void {
+  const imagesByLayer = getImagesByLayer(config);
+  const errors = [
+    ...validateLinkedLayers(config, imagesByLayer),
+    ...validateTraitRules(config.layers, imagesByLayer, config.rules || {})
+  ];
+  
+  if (errors.length > 0) {
+    throw new Error(`Invalid trait rules for "${config.collectionName}":\n - ${errors.join('\n - ')}`);
+  }
+}
+
+/**
+ * Find the image of a linked layer that matches the trait picked for its source layer
+ */
+export function getLinkedImage(
+  layer: LayerConfig,
+  images: LayerAttribute[],
+  chosen: LayerAttribute[]
+): LayerAttribute | null {
+  const source = chosen.find(attr => attr.name === layer.linkedTo);
+  if (!source) {
+    return null;
+  }
+  
+  return images.find(image => image.trait === source.trait) || null;
+}
+
+/**
+ * Check that every linked layer points at an earlier layer and has an asset for each of its traits
+ */
+function validateLinkedLayers(config: NFTConfig, imagesByLayer: Record<string, LayerAttribute[]>): string[] {
+  const errors: string[] = [];
+  
+  config.layers.forEach((layer, index) => {
+    if (!layer.linkedTo) {
+      return;
+    }
+    
+    const sourceIndex = config.layers.findIndex(other => other.name === layer.linkedTo);
+    if (sourceIndex === -1) {
+      errors.push(`layer "${layer.name}" is linked to unknown layer "${layer.linkedTo}"`);
+      return;
+    }
+    if (sourceIndex >= index) {
+      errors.push(`layer "${layer.name}" is linked to "${layer.linkedTo}", which must come before it`);
+      return;
+    }
+    
+    // A required linked layer needs a matching asset for every trait of its source
+    if (layer.required) {
+      const linkedTraits = new Set((imagesByLayer[layer.name] || []).map(image => image.trait));
+      for (const image of imagesByLayer[layer.linkedTo] || []) {
+        if (!linkedTraits.has(image.trait)) {
+          errors.push(`layer "${layer.name}" has no trait "${image.trait}" to match layer "${layer.linkedTo}"`);
+        }
+      }
+    }
+  });
+  
+  return errors;
+}
+
+/**
+ * Roll one combination layer by layer, or null when the rules lead to a dead end
+ */
+function rollCombination(
+  config: NFTConfig,
+  rules: TraitRules,
+  random: RandomSource,
+  forcedTraits: ForcedTraits
+): LayerAttribute[] | null {
+  const combination: LayerAttribute[] = [];
+  const decidedLayers = new Set<string>();
   
   // Go through each layer
   for (const layer of config.layers) {
@@ -104,11 +480,45 @@ export function createRandomCombination(config: NFTConfig): LayerAttribute[] {
       if (layer.required) {
         throw new Error(`Layer "${layer.name}" is required but has no images`);
       }
+      decidedLayers.add(layer.name);
+      continue;
+    }
+    
+    // Conditional layers are only drawn when their condition was picked
+    if (!isLayerActive(rules, layer.name, combination)) {
+      decidedLayers.add(layer.name);
+      continue;
+    }
+    
+    // Linked layers follow the trait of their source layer instead of rolling
+    if (layer.linkedTo) {
+      decidedLayers.add(layer.name);
+      const linkedImage = getLinkedImage(layer, images, combination);
+      
+      if (linkedImage) {
+        combination.push(linkedImage);
+      } else if (layer.required) {
+        return null;
+      }
+      continue;
+    }
+    
+    // Forced traits narrow the choice down to that one trait
+    const forcedTrait = forcedTraits[layer.name];
+    const allowedImages = getAllowedImages(rules, images, combination, decidedLayers)
+      .filter(image => forcedTrait === undefined || image.trait === forcedTrait);
+    decidedLayers.add(layer.name);
+    
+    if (allowedImages.length === 0) {
+      // Optional layers can be left out, a required or forced one means starting over
+      if (layer.required || forcedTrait !== undefined) {
+        return null;
+      }
       continue;
     }
     
-    // Randomly select an image
-    const selectedImage = images[Math.floor(Math.random() * images.length)];
+    // Randomly select an image, respecting the trait weights
+    const selectedImage = pickWeightedImage(allowedImages, random());
     
     // Add to our combination
     combination.push(selectedImage);
@@ -118,31 +528,428 @@ export function createRandomCombination(config: NFTConfig): LayerAttribute[] {
 }
 
 /**
- * Add a timestamp to the canvas
+ * Check that every forced trait names a layer that rolls its own trait and a trait that layer has
+ */
+function validateForcedTraits(config: NFTConfig, forcedTraits: ForcedTraits): void {
+  for (const [layerName, trait] of Object.entries(forcedTraits)) {
+    const layer = config.layers.find(candidate => candidate.name === layerName);
+    
+    if (!layer) {
+      throw new Error(`Cannot force a trait for unknown layer "${layerName}"`);
+    }
+    if (layer.linkedTo) {
+      throw new Error(`Layer "${layerName}" follows "${layer.linkedTo}", force the trait there instead`);
+    }
+    if (!getImagesForLayer(layer).some(image => image.trait === trait)) {
+      throw new Error(`Layer "${layerName}" has no trait "${trait}"`);
+    }
+  }
+}
+
+/**
+ * Create a random combination of layers for the NFT
+ *
+ * @param forcedTraits - Traits picked by hand instead of rolled, keyed by layer name
+ */
+export function createRandomCombination(
+  config: NFTConfig,
+  random: RandomSource = Math.random,
+  forcedTraits: ForcedTraits = {}
+): LayerAttribute[] {
+  const rules = config.rules || {};
+  validateForcedTraits(config, forcedTraits);
+  
+  for (let attempt = 0; attempt < MAX_RULE_ATTEMPTS; attempt++) {
+    const combination = rollCombination(config, rules, random, forcedTraits);
+    
+    // Requirements on later layers can only be checked once the combination is complete,
+    // and a forced trait on a conditional layer only counts when the layer is drawn
+    if (
+      combination &&
+      findRuleViolations(rules, combination).length === 0 &&
+      Object.keys(forcedTraits).every(layerName => combination.some(attr => attr.name === layerName))
+    ) {
+      return combination;
+    }
+  }
+  
+  throw new Error(
+    `Could not find a trait combination that satisfies the rules of "${config.collectionName}" after ${MAX_RULE_ATTEMPTS} attempts`
+  );
+}
+
+/**
+ * Create a combination for a token, re-rolling collisions with other tokens when the collection asks for unique DNA
+ */
+export function createUniqueCombination(
+  config: NFTConfig,
+  tokenId: number,
+  registry: DNARegistry,
+  random: RandomSource = Math.random
+): TokenCombination {
+  validateConfigRules(config);
+  validateStatTraits(config.statTraits || []);
+  
+  if (!config.uniqueDNA) {
+    const attributes = createRandomCombination(config, random);
+    return { attributes, dna: computeDNA(attributes), stats: rollStatTraits(config.statTraits || [], random) };
+  }
+  
+  const traitSpace = getTraitSpaceSize(config);
+  
+  // Fail early when the requested supply can never be reached
+  if (config.maxSupply && config.maxSupply > traitSpace) {
+    throw new Error(
+      `Trait space too small for "${config.collectionName}": ${config.maxSupply} tokens requested ` +
+      `but the layers only allow ${traitSpace} unique combinations`
+    );
+  }
+  
+  const usedByOthers = Object.values(registry).filter(owner => owner !== tokenId).length;
+  if (usedByOthers >= traitSpace) {
+    throw new Error(
+      `Trait space exhausted for "${config.collectionName}": all ${traitSpace} unique combinations are already used`
+    );
+  }
+  
+  for (let attempt = 0; attempt < MAX_DNA_ATTEMPTS; attempt++) {
+    const attributes = createRandomCombination(config, random);
+    const dna = computeDNA(attributes);
+    
+    // Stats are rolled from the same random source, but don't count towards the DNA
+    if (!isDNATaken(registry, dna, tokenId)) {
+      return { attributes, dna, stats: rollStatTraits(config.statTraits || [], random) };
+    }
+  }
+  
+  throw new Error(
+    `Could not find an unused trait combination for NFT #${tokenId} after ${MAX_DNA_ATTEMPTS} attempts ` +
+    `(${usedByOthers} of ${traitSpace} combinations used)`
+  );
+}
+
+/**
+ * Turn a layer combination into metadata attributes
+ */
+export function buildAttributes(
+  config: NFTConfig,
+  combination: LayerAttribute[],
+  stats: NFTAttribute[] = []
+): NFTAttribute[] {
+  const linkedLayers = new Set(config.layers.filter(layer => layer.linkedTo).map(layer => layer.name));
+  
+  // Linked layers only repeat the trait of their source layer, so they are left out
+  const attributes: NFTAttribute[] = combination
+    .filter(attr => !linkedLayers.has(attr.name))
+    .map(attr => ({
+      trait_type: attr.name,
+      value: attr.trait
+    }));
+  
+  const rarityTrait = combination.find(attr => attr.name === config.rarityLayer);
+  if (rarityTrait) {
+    attributes.push({
+      trait_type: RARITY_TRAIT_TYPE,
+      value: rarityTrait.trait
+    });
+  }
+  
+  return [...attributes, ...stats];
+}
+
+/**
+ * Get the random source for a token - seeded by collection seed and token ID when the collection has a seed
+ *
+ * @param revision - Re-roll number, 0 is the original roll
+ */
+export function createTokenRandom(config: NFTConfig, tokenId: number, revision: number = 0): RandomSource {
+  if (!config.seed) {
+    return Math.random;
+  }
+  return revision > 0 ? createSeededRandom(config.seed, tokenId, 'reroll', revision) : createSeededRandom(config.seed, tokenId);
+}
+
+// Options for rendering a token
+export interface RenderOptions {
+  timestamp?: string;  // Stamp this timestamp instead of the current time, used when re-rendering
+  registry?: DNARegistry;  // DNA registry used to avoid duplicate combinations
+  combination?: TokenCombination;  // Pre-rolled combination, the caller then owns the DNA registry
+  revision?: number;  // Re-roll number, 0 (the default) is the original roll
+}
+
+export interface RenderedNFT {
+  buffer: Buffer;  // Static image, the poster frame of animated tokens
+  animation?: Buffer;  // Only for tokens with animated traits when the config has an animation format
+  svg?: string;  // Only when the config's output format is SVG, buffer is then rasterized from it
+  attributes: LayerAttribute[];
+  stats: NFTAttribute[];
+  timestamp: string;
+  dna: string;
+}
+
+/**
+ * Position of a trait's layer in the config - skipped layers don't move the ones after them
+ */
+function getLayerIndex(config: NFTConfig, layer: LayerAttribute): number {
+  return config.layers.findIndex(candidate => candidate.name === layer.name);
+}
+
+/**
+ * Render a token to a PNG buffer without writing anything to disk
  */
-export function addTimestampToCanvas(ctx: CanvasRenderingContext2D, width: number, height: number): string {
-  const timestamp = new Date().toISOString();
+export async function renderNFT(tokenId: number, config: NFTConfig, options: RenderOptions = {}): Promise<RenderedNFT> {
+  // Fonts have to be known to node-canvas before the canvas is created
+  registerBundledFonts(config.fontsFolder);
   
-  // Configure text styling
-  ctx.fillStyle = 'white';
-  ctx.strokeStyle = 'black';
-  ctx.lineWidth = 3;
-  ctx.font = '30px Arial';
-  ctx.textAlign = 'center';
+  // Get a random combination of layers that no other token has
+  const { attributes, dna, stats } = options.combination || createUniqueCombination(
+    config,
+    tokenId,
+    options.registry || {},
+    createTokenRandom(config, tokenId, options.revision)
+  );
   
-  // Draw the text with a stroke for better visibility on any background
-  ctx.strokeText(timestamp, width / 2, 50);
-  ctx.fillText(timestamp, width / 2, 50);
+  const timestamp = options.timestamp || new Date().toISOString();
+  const context = buildTemplateContext(config, tokenId, buildAttributes(config, attributes, stats), timestamp);
   
-  return timestamp;
+  if (config.outputFormat === 'svg') {
+    if (config.animation || config.qrBadge || (config.statTraits || []).some(stat => stat.bar)) {
+      throw new Error('Animations, QR badges and stat bars are not supported with the SVG output format');
+    }
+    
+    // Traits stored as frame folders show their first frame
+    const layers = attributes.map(layer => ({
+      path: layer.frames ? layer.frames[0] : layer.path,
+      render: layer.render,
+      layerIndex: getLayerIndex(config, layer)
+    }));
+    const svg = await composeSVG(layers, config.textOverlays || [], context, config.width, config.height);
+    
+    return {
+      buffer: await rasterizeSVG(svg, config.width, config.height),
+      svg,
+      attributes,
+      stats,
+      timestamp,
+      dna
+    };
+  }
+  
+  // Create the canvas
+  const canvas = createCanvas(config.width, config.height);
+  const ctx = canvas.getContext('2d');
+  
+  // Without an animation config only the poster frame is rendered
+  const frameCount = config.animation ? getFrameCount(attributes) : 1;
+  const posterFrame = config.animation ? Math.min(config.animation.posterFrame ?? 0, frameCount - 1) : 0;
+  const frames: Buffer[] = [];
+  
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Draw white background as default
+    ctx.fillStyle = "white";
+    ctx.fillRect(0, 0, config.width, config.height);
+    
+    // Draw each layer in z-order, traits with fewer frames loop
+    for (const layer of sortByZIndex(attributes, layer => getLayerIndex(config, layer))) {
+      try {
+        const image = await loadLayerFrame(layer, frame);
+        drawLayer(ctx, image, layer.render, config.width, config.height);
+      } catch (error) {
+        console.error(`Error loading image ${layer.path}:`, error);
+      }
+    }
+    
+    // Stat bars go on top of the art, below the text
+    drawStatBars(ctx, config.statTraits || [], stats);
+    
+    // Add the text overlays, e.g. the timestamp
+    drawTextOverlays(ctx, config.textOverlays || [], context, config.width);
+    
+    // The QR badge goes on top of everything so nothing covers the code
+    if (config.qrBadge) {
+      drawQRBadge(ctx, config.qrBadge, { collectionName: config.collectionName, tokenId, dna }, config.width, config.height);
+    }
+    
+    frames.push(canvas.toBuffer('image/png'));
+  }
+  
+  return {
+    buffer: frames[posterFrame],
+    animation: config.animation && frameCount > 1 ? await encodeAnimation(frames, config.animation) : undefined,
+    attributes,
+    stats,
+    timestamp,
+    dna
+  };
+}
+
+/**
+ * Build the URL of a file in the images folder - absolute when S3 is configured, relative otherwise
+ */
+export function getImageUrl(config: NFTConfig, relativePath: string): string {
+  if (config.s3Endpoint && config.s3BucketName) {
+    return `https://${config.s3Endpoint}/${config.s3BucketName}/images/${relativePath}`;
+  }
+  return relativePath;
+}
+
+/**
+ * Build the metadata of a procedurally generated token
+ */
+function buildGeneratedMetadata(tokenId: number, config: NFTConfig, rendered: RenderedNFT, imageUrl: string): NFTMetadata {
+  const attributes = buildAttributes(config, rendered.attributes, rendered.stats);
+  
+  return {
+    ...renderTokenText(config, tokenId, attributes, rendered.timestamp),
+    image: imageUrl,
+    attributes,
+    timestamp: rendered.timestamp,
+    dna: rendered.dna
+  };
+}
+
+/**
+ * Values for the name, description and text overlay templates of a token
+ *
+ * @param poolSlot - Token ID that picks the pool name, only differs from tokenId when art moves to another token
+ */
+export function buildTemplateContext(
+  config: NFTConfig,
+  tokenId: number,
+  attributes: NFTAttribute[],
+  timestamp: string,
+  poolSlot: number = tokenId
+): TemplateContext {
+  const traits: Record<string, string | number> = {};
+  for (const attribute of attributes) {
+    traits[attribute.trait_type] = attribute.value;
+  }
+  
+  return {
+    collectionName: config.collectionName,
+    tokenId,
+    timestamp,
+    traits,
+    poolName: config.namePool?.length ? pickPoolName(config.namePool, poolSlot, config.seed) : undefined
+  };
+}
+
+/**
+ * Render the name and description of a token from the collection's templates
+ */
+export function renderTokenText(
+  config: NFTConfig,
+  tokenId: number,
+  attributes: NFTAttribute[],
+  timestamp: string,
+  poolSlot: number = tokenId
+): { name: string; description: string } {
+  const context = buildTemplateContext(config, tokenId, attributes, timestamp, poolSlot);
+  
+  return {
+    name: renderTemplate(config.nameTemplate || '{collectionName} #{tokenId}', context).trim(),
+    description: renderTemplate(config.description, context).trim()
+  };
+}
+
+/**
+ * Write the translations of a token's metadata as metadata/<locale>/<id>.json next to the default one
+ *
+ * @param poolSlot - Token ID that picked the pool name, see buildTemplateContext
+ */
+export function writeLocalizedMetadata(
+  config: NFTConfig,
+  tokenId: number,
+  metadata: NFTMetadata,
+  metadataDir: string,
+  poolSlot: number = tokenId
+): string[] {
+  const context = buildTemplateContext(config, tokenId, metadata.attributes, metadata.timestamp, poolSlot);
+  const generated = renderTokenText(config, tokenId, metadata.attributes, metadata.timestamp, poolSlot);
+  
+  return Object.entries(config.locales || {}).map(([locale, localeConfig]) => {
+    const localized = localizeMetadata(metadata, localeConfig, context, generated);
+    assertValidNFTMetadata(localized, `NFT #${tokenId} (${locale})`);
+    
+    const localizedPath = path.join(metadataDir, locale, `${tokenId}.json`);
+    fs.ensureDirSync(path.dirname(localizedPath));
+    fs.writeFileSync(localizedPath, JSON.stringify(localized, null, 2));
+    return localizedPath;
+  });
+}
+
+/**
+ * Page of a token on our own site, or undefined when the collection has no externalUrl
+ */
+export function getExternalUrl(config: NFTConfig, tokenId: number): string | undefined {
+  return config.externalUrl?.replace(/\{tokenId\}/g, String(tokenId));
+}
+
+/**
+ * Add the fields every token of a collection carries, generated or hand-crafted
+ */
+function addCollectionFields(metadata: NFTMetadata, tokenId: number, config: NFTConfig, buffer: Buffer): void {
+  metadata.image_hash = hashImage(buffer);
+  if (config.externalUrl) {
+    metadata.external_url = getExternalUrl(config, tokenId);
+  }
+  if (config.backgroundColor) {
+    metadata.background_color = config.backgroundColor.replace(/^#/, '');
+  }
+  if (config.youtubeUrl) {
+    metadata.youtube_url = config.youtubeUrl;
+  }
+}
+
+// Options for previewing a token
+export interface PreviewOptions {
+  forcedTraits?: ForcedTraits;  // Traits picked by hand, the other layers are rolled
+  rollKey?: string | number;  // Same key gives the same preview, omit for a fresh roll every time
+}
+
+export interface NFTPreview {
+  buffer: Buffer;
+  dataUrl: string;  // PNG as a data URL, ready for an <img> tag
+  metadata: NFTMetadata;  // Metadata the token would get, minus the rendition files
+  dnaTaken: boolean;  // Another token already owns this combination and the collection wants unique DNA, so generation would re-roll it
+}
+
+/**
+ * Render a token in memory to see what a config produces - nothing is written and no DNA is claimed
+ */
+export async function previewNFT(tokenId: number, config: NFTConfig, options: PreviewOptions = {}): Promise<NFTPreview> {
+  validateConfigRules(config);
+  validateStatTraits(config.statTraits || []);
+  
+  const random = options.rollKey !== undefined
+    ? createSeededRandom(config.seed || config.collectionName, 'preview', options.rollKey)
+    : Math.random;
+  const attributes = createRandomCombination(config, random, options.forcedTraits);
+  const combination = {
+    attributes,
+    dna: computeDNA(attributes),
+    stats: rollStatTraits(config.statTraits || [], random)
+  };
+  
+  const rendered = await renderNFT(tokenId, config, { combination });
+  const metadata = buildGeneratedMetadata(tokenId, config, rendered, getImageUrl(config, `${tokenId}.png`));
+  addCollectionFields(metadata, tokenId, config, rendered.buffer);
+  
+  return {
+    buffer: rendered.buffer,
+    dataUrl: `data:image/png;base64,${rendered.buffer.toString('base64')}`,
+    metadata,
+    dnaTaken: !!config.uniqueDNA && isDNATaken(loadDNARegistry(config), combination.dna, tokenId)
+  };
 }
 
 /**
  * Generate a dog NFT with timestamp
  */
-export async function generateNFT(tokenId: number, config = DEFAULT_CONFIG): Promise<{
+export async function generateNFT(tokenId: number, config = DEFAULT_CONFIG, options: RenderOptions = {}): Promise<{
   imagePath: string;
   metadataPath: string;
+  renditionPaths: string[];  // Renditions, the SVG and the animation, stored relative to the image
   metadata: NFTMetadata;
 }> {
   console.log(`Generating NFT #${tokenId}...`);
@@ -151,65 +958,121 @@ export async function generateNFT(tokenId: number, config = DEFAULT_CONFIG): Pro
   fs.ensureDirSync(path.join(config.outputDir, 'images'));
   fs.ensureDirSync(path.join(config.outputDir, 'metadata'));
   
-  // Create the canvas
-  const canvas = createCanvas(config.width, config.height);
-  const ctx = canvas.getContext('2d');
+  const registry = loadDNARegistry(config);
+  const oneOfOne = getOneOfOne(config, tokenId);
   
-  // Draw white background as default
-  ctx.fillStyle = "white";
-  ctx.fillRect(0, 0, config.width, config.height);
+  // One-of-ones with their own artwork skip rendering and never claim a DNA
+  const rendered = oneOfOne?.imageFile ? null : await renderNFT(tokenId, config, { ...options, registry });
+  const buffer = rendered
+    ? rendered.buffer
+    : await loadOneOfOneImage(oneOfOne as OneOfOneConfig, config.width, config.height);
+  const timestamp = rendered ? rendered.timestamp : options.timestamp || new Date().toISOString();
   
-  // Get random combination of layers
-  const attributes = createRandomCombination(config);
+  // Write the extra formats and sizes
+  const renditions = await createRenditions(buffer, tokenId, config.outputDir, config.renditions || []);
   
-  // Draw each layer
-  for (const layer of attributes) {
-    try {
-      const image = await loadImage(layer.path);
-      ctx.drawImage(image, 0, 0, config.width, config.height);
-    } catch (error) {
-      console.error(`Error loading image ${layer.path}:`, error);
-    }
-  }
+  // Determine the image URL - either relative or absolute
+  const imageUrl = getImageUrl(config, `${tokenId}.png`);
   
-  // Add timestamp to the NFT
-  const timestamp = addTimestampToCanvas(ctx, config.width, config.height);
+  // Create metadata
+  let metadata: NFTMetadata;
+  if (oneOfOne) {
+    const handAuthored = await loadOneOfOneMetadata(oneOfOne);
+    // Generated art shows its rolled traits, hand-authored ones are only kept for what the art doesn't decide
+    const rolledAttributes = rendered
+      ? buildAttributes(config, rendered.attributes, rendered.stats).filter(attr => attr.trait_type !== RARITY_TRAIT_TYPE)
+      : [];
+    const rolledTypes = new Set(rolledAttributes.map(attr => attr.trait_type));
+    const attributes = [
+      ...rolledAttributes,
+      ...(handAuthored.attributes || []).filter(attr => !rolledTypes.has(attr.trait_type))
+    ];
+    
+    const generatedText = renderTokenText(config, tokenId, attributes, timestamp);
+    
+    metadata = {
+      ...handAuthored,
+      name: handAuthored.name || generatedText.name,
+      description: handAuthored.description || generatedText.description,
+      image: imageUrl,
+      attributes: attributes.some(attr => attr.trait_type === RARITY_TRAIT_TYPE)
+        ? attributes
+        : [...attributes, { trait_type: RARITY_TRAIT_TYPE, value: ONE_OF_ONE_RARITY }],
+      timestamp: timestamp,
+      ...(rendered ? { dna: rendered.dna } : {})
+    };
+  } else {
+    metadata = buildGeneratedMetadata(tokenId, config, rendered as RenderedNFT, imageUrl);
+  }
   
-  // Save the image
+  // Save the image with the token details embedded, so it can be traced back even without its metadata
+  const png = embedNFTMetadata(buffer, {
+    collectionName: config.collectionName,
+    tokenId,
+    dna: metadata.dna,
+    traits: metadata.attributes.map(attr => ({ trait_type: attr.trait_type, value: attr.value })),
+    timestamp
+  });
   const outputImagePath = path.join(config.outputDir, 'images', `${tokenId}.png`);
-  const buffer = canvas.toBuffer('image/png');
-  fs.writeFileSync(outputImagePath, buffer);
+  fs.writeFileSync(outputImagePath, png);
+  addCollectionFields(metadata, tokenId, config, png);
   
-  // Determine the image URL - either relative or absolute
-  let imageUrl = `${tokenId}.png`;
+  // Animated tokens keep the static image as poster and link the animation
+  const extraFiles = renditions.map(rendition => ({
+    path: rendition.path,
+    uri: getImageUrl(config, rendition.relativePath),
+    type: rendition.mimeType
+  }));
   
-  // If S3 endpoint is provided, create a full URL
-  if (config.s3Endpoint && config.s3BucketName) {
-    // Create absolute URL for image
-    imageUrl = `https://${config.s3Endpoint}/${config.s3BucketName}/images/${tokenId}.png`;
+  // Vector tokens are shown as SVG, the PNG stays available as a rasterized copy
+  if (rendered?.svg) {
+    const svgPath = path.join(config.outputDir, 'images', `${tokenId}.svg`);
+    fs.writeFileSync(svgPath, rendered.svg);
+    
+    metadata.image = getImageUrl(config, `${tokenId}.svg`);
+    extraFiles.push({ path: svgPath, uri: metadata.image, type: SVG_MIME_TYPE });
+  }
+  if (rendered?.animation && config.animation) {
+    const relativePath = getAnimationRelativePath(config.animation, tokenId);
+    const animationPath = path.join(config.outputDir, 'images', relativePath);
+    fs.ensureDirSync(path.dirname(animationPath));
+    fs.writeFileSync(animationPath, rendered.animation);
+    
+    metadata.animation_url = getImageUrl(config, relativePath);
+    extraFiles.push({ path: animationPath, uri: metadata.animation_url, type: ANIMATION_MIME_TYPES[config.animation.format] });
   }
   
-  // Create metadata
-  const metadata: NFTMetadata = {
-    name: `${config.collectionName} #${tokenId}`,
-    description: config.description,
-    image: imageUrl,
-    attributes: attributes.map(attr => ({
-      trait_type: attr.name,
-      value: attr.trait
-    })),
-    timestamp: timestamp
-  };
+  // Reference the renditions so marketplaces can pick a lighter file
+  const thumbnail = renditions.find(rendition => rendition.thumbnail);
+  if (thumbnail) {
+    metadata.image_thumbnail = getImageUrl(config, thumbnail.relativePath);
+  }
+  if (extraFiles.length > 0) {
+    metadata.properties = {
+      files: [
+        { uri: imageUrl, type: 'image/png' },
+        ...extraFiles.map(file => ({ uri: file.uri, type: file.type }))
+      ]
+    };
+  }
   
-  // Save metadata
+  // Save metadata, refusing anything marketplaces would reject
+  assertValidNFTMetadata(metadata, `NFT #${tokenId}`);
   const outputMetadataPath = path.join(config.outputDir, 'metadata', `${tokenId}.json`);
   fs.writeFileSync(outputMetadataPath, JSON.stringify(metadata, null, 2));
+  writeLocalizedMetadata(config, tokenId, metadata, path.dirname(outputMetadataPath));
+  
+  // Claim the combination so no later token gets the same one
+  if (rendered && !options.combination) {
+    saveDNARegistry(config.outputDir, registerDNA(registry, rendered.dna, tokenId));
+  }
   
   console.log(`Completed NFT #${tokenId}`);
   
   return {
     imagePath: outputImagePath,
     metadataPath: outputMetadataPath,
+    renditionPaths: extraFiles.map(file => file.path),
     metadata
   };
 } 
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { parentPort } from 'worker_threads';
+import { generateNFT, NFTConfig, TokenCombination } from './nftGenerator';
+
+// A token to render, with the combination already rolled by the main thread
+export interface WorkerTask {
+  tokenId: number;
+  config: NFTConfig;
+  combination?: TokenCombination;  // Left out for one-of-ones that bring their own artwork
+}
+
+export type WorkerResult =
+  | { type: 'done'; tokenId: number; imagePath: string; metadataPath: string; renditionPaths: string[] }
+  | { type: 'error'; tokenId: number; error: string };
+
+// Each worker keeps its own layer image cache, so decoded PNGs are reused across its tasks
+parentPort?.on('message', async (task: WorkerTask) => {
+  try {
+    const { imagePath, metadataPath, renditionPaths } = await generateNFT(task.tokenId, task.config, {
+      combination: task.combination
+    });
+    parentPort?.postMessage({ type: 'done', tokenId: task.tokenId, imagePath, metadataPath, renditionPaths } as WorkerResult);
+  } catch (error) {
+    parentPort?.postMessage({
+      type: 'error',
+      tokenId: task.tokenId,
+      error: error instanceof Error ? error.message : String(error)
+    } as WorkerResult);
+  }
+});
@@ -0,0 +1,93 @@
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { createSeededRandom } from './random';
+import type { NFTConfig, NFTMetadata } from './nftGenerator';
+
+// A hand-crafted token that replaces procedural generation for its slot
+export interface OneOfOneConfig {
+  metadataFile: string;  // Hand-authored metadata, e.g. ./public/assets/metadata/aiko.json
+  imageFile?: string;  // Hand-made artwork - without it the token gets generated art
+  tokenId?: number;  // Fixed slot - left out, the token is placed in a random slot within maxSupply
+}
+
+// Value of the "Rarity" attribute for one-of-ones, unless their metadata sets its own
+export const ONE_OF_ONE_RARITY = 'one of one';
+
+/**
+ * Assign every one-of-one to its token ID
+ *
+ * Unplaced one-of-ones get random slots seeded by the collection seed, so the placement is
+ * fixed for a collection but can't be guessed before the seed is known.
+ */
+export function getOneOfOneSlots(config: NFTConfig): Map<number, OneOfOneConfig> {
+  const slots = new Map<number, OneOfOneConfig>();
+  const oneOfOnes = config.oneOfOnes || [];
+
+  for (const oneOfOne of oneOfOnes.filter(entry => entry.tokenId !== undefined)) {
+    const tokenId = oneOfOne.tokenId as number;
+    if (!Number.isInteger(tokenId) || tokenId < 1 || (config.maxSupply && tokenId > config.maxSupply)) {
+      throw new Error(`Invalid token ID ${tokenId} for one-of-one ${oneOfOne.metadataFile}`);
+    }
+    if (slots.has(tokenId)) {
+      throw new Error(`Token #${tokenId} is reserved for more than one one-of-one`);
+    }
+    slots.set(tokenId, oneOfOne);
+  }
+
+  const unplaced = oneOfOnes.filter(entry => entry.tokenId === undefined);
+  if (unplaced.length === 0) {
+    return slots;
+  }
+
+  if (!config.maxSupply) {
+    throw new Error(`Collection "${config.collectionName}" needs a maxSupply to place one-of-ones in random slots`);
+  }
+  if (oneOfOnes.length > config.maxSupply) {
+    throw new Error(
+      `Collection "${config.collectionName}" has ${oneOfOnes.length} one-of-ones but a maxSupply of ${config.maxSupply}`
+    );
+  }
+
+  const random = createSeededRandom(config.seed || config.collectionName, 'one-of-ones');
+  for (const oneOfOne of unplaced) {
+    let tokenId: number;
+    do {
+      tokenId = 1 + Math.floor(random() * config.maxSupply);
+    } while (slots.has(tokenId));
+    slots.set(tokenId, oneOfOne);
+  }
+
+  return slots;
+}
+
+/**
+ * Get the one-of-one reserved for a token, if any
+ */
+export function getOneOfOne(config: NFTConfig, tokenId: number): OneOfOneConfig | undefined {
+  return config.oneOfOnes?.length ? getOneOfOneSlots(config).get(tokenId) : undefined;
+}
+
+/**
+ * Read the hand-authored metadata of a one-of-one
+ */
+export async function loadOneOfOneMetadata(oneOfOne: OneOfOneConfig): Promise<Partial<NFTMetadata>> {
+  if (!(await fs.pathExists(oneOfOne.metadataFile))) {
+    throw new Error(`One-of-one metadata not found: ${oneOfOne.metadataFile}`);
+  }
+
+  return fs.readJson(oneOfOne.metadataFile);
+}
+
+/**
+ * Load the hand-made artwork of a one-of-one as a PNG at canvas size
+ */
+export async function loadOneOfOneImage(oneOfOne: OneOfOneConfig, width: number, height: number): Promise<Buffer> {
+  if (!oneOfOne.imageFile || !(await fs.pathExists(oneOfOne.imageFile))) {
+    throw new Error(`One-of-one image not found: ${oneOfOne.imageFile}`);
+  }
+
+  return sharp(oneOfOne.imageFile)
+    .resize(width, height, { fit: 'cover' })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+
+// Every PNG starts with these 8 bytes
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Keywords of the iTXt chunks we write, prefixed so they can't clash with keywords of other tools
+const KEYWORD_PREFIX = 'nft:';
+
+// Fields embedded in a generated PNG
+export interface EmbeddedNFTMetadata {
+  collectionName: string;
+  tokenId: number;
+  dna?: string;  // Absent for hand-made one-of-ones
+  traits: Array<{ trait_type: string; value: string | number }>;
+  timestamp: string;
+  contentHash: string;  // SHA-256 of the other embedded fields and the PNG without the embedded chunks
+}
+
+export interface EmbeddedMetadataVerification {
+  valid: boolean;
+  metadata: EmbeddedNFTMetadata | null;
+  contentHash: string;  // Recomputed from the image
+  message: string;
+}
+
+export interface PNGChunk {
+  type: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of a chunk's type and data, as stored after every PNG chunk
+ */
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Split a PNG into its chunks
+ */
+export function readPNGChunks(png: Buffer): PNGChunk[] {
+  if (png.length < PNG_SIGNATURE.length || !png.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const chunks: PNGChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    if (offset + 12 + length > png.length) {
+      throw new Error(`Truncated PNG chunk "${type}"`);
+    }
+
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+
+    if (type === 'IEND') {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Join chunks back into a PNG
+ */
+export function writePNGChunks(chunks: PNGChunk[]): Buffer {
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    ...chunks.map(chunk => {
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(chunk.data.length, 0);
+      header.write(chunk.type, 4, 'latin1');
+
+      const crc = Buffer.alloc(4);
+      crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), chunk.data])), 0);
+
+      return Buffer.concat([header, chunk.data, crc]);
+    })
+  ]);
+}
+
+/**
+ * Build an uncompressed iTXt chunk - unlike tEXt it holds UTF-8, so trait names can use any script
+ */
+function createTextChunk(keyword: string, text: string): PNGChunk {
+  return {
+    type: 'iTXt',
+    data: Buffer.concat([
+      Buffer.from(keyword, 'latin1'),
+      // Null separator, compression flag, compression method, empty language tag and translated keyword
+      Buffer.from([0, 0, 0, 0, 0]),
+      Buffer.from(text, 'utf8')
+    ])
+  };
+}
+
+/**
+ * Read the keyword and text of an uncompressed iTXt chunk, or null for anything else
+ */
+function parseTextChunk(chunk: PNGChunk): { keyword: string; text: string } | null {
+  if (chunk.type !== 'iTXt') {
+    return null;
+  }
+
+  const keywordEnd = chunk.data.indexOf(0);
+  if (keywordEnd === -1 || chunk.data[keywordEnd + 1] !== 0) {
+    return null;
+  }
+  const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd === -1 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+  if (translatedEnd === -1) {
+    return null;
+  }
+
+  return {
+    keyword: chunk.data.toString('latin1', 0, keywordEnd),
+    text: chunk.data.toString('utf8', translatedEnd + 1)
+  };
+}
+
+/**
+ * Check whether a chunk is one of the metadata chunks we embed
+ */
+function isEmbeddedChunk(chunk: PNGChunk): boolean {
+  return parseTextChunk(chunk)?.keyword.startsWith(KEYWORD_PREFIX) ?? false;
+}
+
+/**
+ * Remove the embedded metadata chunks, giving back the PNG as the encoder wrote it
+ */
+export function stripEmbeddedMetadata(png: Buffer): Buffer {
+  const chunks = readPNGChunks(png);
+  return chunks.some(isEmbeddedChunk) ? writePNGChunks(chunks.filter(chunk => !isEmbeddedChunk(chunk))) : png;
+}
+
+/**
+ * Read the raw text of every embedded metadata chunk, keyed by field name without the prefix
+ */
+function readEmbeddedFields(png: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  for (const chunk of readPNGChunks(png)) {
+    const text = parseTextChunk(chunk);
+    if (text?.keyword.startsWith(KEYWORD_PREFIX)) {
+      fields[text.keyword.slice(KEYWORD_PREFIX.length)] = text.text;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * SHA-256 of the embedded fields and the PNG without its embedded metadata chunks, as hex
+ *
+ * The fields are hashed as sorted key/value pairs, so editing, adding or removing any of them changes the hash
+ * just like editing the pixels does. The contentHash field itself is left out.
+ */
+export function computeContentHash(png: Buffer, fields: Record<string, string>): string {
+  const canonicalFields = Object.keys(fields)
+    .filter(key => key !== 'contentHash')
+    .sort()
+    .map(key => [key, fields[key]]);
+
+  return crypto.createHash('sha256')
+    .update(JSON.stringify(canonicalFields))
+    .update(stripEmbeddedMetadata(png))
+    .digest('hex');
+}
+
+/**
+ * Write the token's metadata into iTXt chunks right after the PNG header, replacing any embedded before
+ */
+export function embedNFTMetadata(png: Buffer, metadata: Omit<EmbeddedNFTMetadata, 'contentHash'>): Buffer {
+  const chunks = readPNGChunks(stripEmbeddedMetadata(png));
+
+  const fields: Record<string, string> = {
+    collection: metadata.collectionName,
+    tokenId: String(metadata.tokenId),
+    ...(metadata.dna ? { dna: metadata.dna } : {}),
+    traits: JSON.stringify(metadata.traits),
+    timestamp: metadata.timestamp
+  };
+  fields.contentHash = computeContentHash(png, fields);
+  const textChunks = Object.entries(fields).map(([key, value]) => createTextChunk(`${KEYWORD_PREFIX}${key}`, value));
+
+  // IHDR must stay the first chunk
+  return writePNGChunks([chunks[0], ...textChunks, ...chunks.slice(1)]);
+}
+
+/**
+ * Extract the metadata embedded in a PNG, or null when it carries none
+ */
+export function readEmbeddedMetadata(png: Buffer): EmbeddedNFTMetadata | null {
+  const fields = readEmbeddedFields(png);
+
+  if (!fields.collection || !fields.tokenId || !fields.contentHash) {
+    return null;
+  }
+
+  let traits: EmbeddedNFTMetadata['traits'] = [];
+  try {
+    traits = JSON.parse(fields.traits || '[]');
+  } catch {
+    console.warn('Embedded trait list is not valid JSON, ignoring it');
+  }
+
+  return {
+    collectionName: fields.collection,
+    tokenId: parseInt(fields.tokenId, 10),
+    dna: fields.dna,
+    traits,
+    timestamp: fields.timestamp || '',
+    contentHash: fields.contentHash
+  };
+}
+
+/**
+ * Extract the embedded metadata and check that the image is still the one it was written for
+ */
+export function verifyEmbeddedMetadata(png: Buffer): EmbeddedMetadataVerification {
+  const metadata = readEmbeddedMetadata(png);
+  // Hashed from the raw chunk text, so edits the parser would smooth over still show
+  const contentHash = computeContentHash(png, readEmbeddedFields(png));
+
+  if (!metadata) {
+    return { valid: false, metadata, contentHash, message: 'The image carries no embedded NFT metadata' };
+  }
+
+  const valid = metadata.contentHash === contentHash;
+  return {
+    valid,
+    metadata,
+    contentHash,
+    message: valid
+      ? `${metadata.collectionName} #${metadata.tokenId}, content hash verified`
+      : `${metadata.collectionName} #${metadata.tokenId}, but the image or its embedded details were modified after generation`
+  };
+}
@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { getExternalUrl, getImageUrl, NFTConfig, NFTMetadata, renderTokenText, writeLocalizedMetadata } from './nftGenerator';
+import { createRenditions } from './renditions';
+import { assertValidNFTMetadata } from './metadataSchema';
+import { SVG_MIME_TYPE } from './svgOutput';
+import { ANIMATION_EXTENSIONS, ANIMATION_FOLDER, ANIMATION_MIME_TYPES, AnimationConfig, findAnimationFile } from './animation';
+
+// File inside a collection output directory that holds the published provenance
+const PROVENANCE_FILE = 'provenance.json';
+
+// Folder inside a collection output directory that holds the layout after the starting index is applied
+export const FINAL_LAYOUT_FOLDER = 'final';
+
+export interface ProvenanceRecord {
+  collectionName: string;
+  totalTokens: number;
+  imageHashes: string[];  // SHA-256 of every pre-generated image, in pre-reveal token order
+  provenanceHash: string;  // SHA-256 of all image hashes concatenated in that order
+  createdAt: string;
+  startingIndex?: number;  // Offset fixed after sell-out - final token N shows pre-generated token ((N - 1 + startingIndex) % total) + 1
+  startingIndexSource?: string;  // Block hash or seed the starting index was derived from
+  finalizedAt?: string;
+}
+
+export interface ProvenanceVerification {
+  matches: boolean;
+  provenanceHash: string;  // Recomputed from the images
+  expectedHash: string;  // As published
+  mismatchedTokens: number[];  // Tokens whose image is missing or differs from the published hash
+}
+
+/**
+ * SHA-256 of an image file, as hex
+ */
+export function hashImage(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Combine the image hashes into the collection provenance hash
+ */
+export function computeProvenanceHash(imageHashes: string[]): string {
+  return crypto.createHash('sha256').update(imageHashes.join('')).digest('hex');
+}
+
+/**
+ * Derive the starting index from a block hash ("0x..."), or from any other seed string by hashing it
+ */
+export function deriveStartingIndex(source: string, totalTokens: number): number {
+  if (!source) {
+    throw new Error('A block hash or seed is required to derive the starting index');
+  }
+
+  const hex = /^0x[0-9a-fA-F]+$/.test(source)
+    ? source.slice(2)
+    : crypto.createHash('sha256').update(source).digest('hex');
+  const index = Number(BigInt(`0x${hex}`) % BigInt(totalTokens));
+
+  // An offset of zero would leave the pre-reveal order unchanged
+  return index === 0 && totalTokens > 1 ? 1 : index;
+}
+
+/**
+ * Map a final token ID to the pre-generated token whose art it shows
+ */
+export function getPreRevealTokenId(finalTokenId: number, startingIndex: number, totalTokens: number): number {
+  return ((finalTokenId - 1 + startingIndex) % totalTokens) + 1;
+}
+
+/**
+ * Map a pre-generated token to the final token ID that shows its art
+ */
+export function getFinalTokenId(preRevealTokenId: number, startingIndex: number, totalTokens: number): number {
+  return ((preRevealTokenId - 1 - startingIndex) % totalTokens + totalTokens) % totalTokens + 1;
+}
+
+/**
+ * Read the published provenance of a collection, or null when none was published yet
+ */
+export async function loadProvenance(outputDir: string): Promise<ProvenanceRecord | null> {
+  const provenancePath = path.join(outputDir, PROVENANCE_FILE);
+
+  if (!(await fs.pathExists(provenancePath))) {
+    return null;
+  }
+
+  return fs.readJson(provenancePath);
+}
+
+/**
+ * Persist the provenance record of a collection
+ */
+export async function saveProvenance(outputDir: string, record: ProvenanceRecord): Promise<void> {
+  await fs.writeJson(path.join(outputDir, PROVENANCE_FILE), record, { spaces: 2 });
+}
+
+/**
+ * Hash every pre-generated image of a collection into a provenance record
+ *
+ * Token IDs must run from 1 without gaps, otherwise the starting index can't map them.
+ */
+export async function createProvenance(config: NFTConfig): Promise<ProvenanceRecord> {
+  const existing = await loadProvenance(config.outputDir);
+  if (existing?.startingIndex !== undefined) {
+    throw new Error(`Provenance of "${config.collectionName}" is already finalized and cannot be recreated`);
+  }
+
+  const metadataDir = path.join(config.outputDir, 'metadata');
+  const tokenIds = (await fs.pathExists(metadataDir) ? await fs.readdir(metadataDir) : [])
+    .filter(file => /^\d+\.json$/.test(file))
+    .map(file => parseInt(file, 10))
+    .sort((a, b) => a - b);
+
+  if (tokenIds.length === 0) {
+    throw new Error(`No generated tokens found in ${config.outputDir}`);
+  }
+  const gap = tokenIds.findIndex((tokenId, index) => tokenId !== index + 1);
+  if (gap !== -1) {
+    throw new Error(`Token IDs must run from 1 without gaps, token #${gap + 1} is missing`);
+  }
+
+  const imageHashes: string[] = [];
+  for (const tokenId of tokenIds) {
+    const imagePath = path.join(config.outputDir, 'images', `${tokenId}.png`);
+    if (!(await fs.pathExists(imagePath))) {
+      throw new Error(`Image of token #${tokenId} not found at ${imagePath}`);
+    }
+    imageHashes.push(hashImage(await fs.readFile(imagePath)));
+  }
+
+  return {
+    collectionName: config.collectionName,
+    totalTokens: tokenIds.length,
+    imageHashes,
+    provenanceHash: computeProvenanceHash(imageHashes),
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Recompute the provenance hash from the stored images and compare it with the published record
+ *
+ * @param loadImage - Returns the stored pre-reveal image of a token, or null when it is missing
+ */
+export async function verifyProvenance(
+  record: ProvenanceRecord,
+  loadImage: (tokenId: number) => Promise<Buffer | null>
+): Promise<ProvenanceVerification> {
+  const imageHashes: string[] = [];
+  const mismatchedTokens: number[] = [];
+
+  for (let tokenId = 1; tokenId <= record.totalTokens; tokenId++) {
+    const image = await loadImage(tokenId);
+    const imageHash = image ? hashImage(image) : '';
+
+    if (imageHash !== record.imageHashes[tokenId - 1]) {
+      mismatchedTokens.push(tokenId);
+    }
+    imageHashes.push(imageHash);
+  }
+
+  const provenanceHash = computeProvenanceHash(imageHashes);
+
+  return {
+    // The published hash list must itself add up to the published provenance hash
+    matches: provenanceHash === record.provenanceHash && computeProvenanceHash(record.imageHashes) === record.provenanceHash,
+    provenanceHash,
+    expectedHash: record.provenanceHash,
+    mismatchedTokens
+  };
+}
+
+/**
+ * Write the final layout of a collection: token N gets the art and metadata of its pre-generated token
+ *
+ * The result goes to <outputDir>/final/, laid out like a regular collection output.
+ */
+export async function layoutFinalCollection(
+  config: NFTConfig,
+  record: ProvenanceRecord,
+  startingIndex: number
+): Promise<Array<{ tokenId: number; imagePath: string; metadataPath: string; renditionPaths: string[] }>> {
+  const finalDir = path.join(config.outputDir, FINAL_LAYOUT_FOLDER);
+  await fs.ensureDir(path.join(finalDir, 'images'));
+  await fs.ensureDir(path.join(finalDir, 'metadata'));
+
+  const layout = [];
+  for (let tokenId = 1; tokenId <= record.totalTokens; tokenId++) {
+    const sourceId = getPreRevealTokenId(tokenId, startingIndex, record.totalTokens);
+    // Copied as-is: the embedded PNG metadata keeps the pre-reveal token ID, rewriting it would break the hashes
+    const buffer = await fs.readFile(path.join(config.outputDir, 'images', `${sourceId}.png`));
+    const source: NFTMetadata = await fs.readJson(path.join(config.outputDir, 'metadata', `${sourceId}.json`));
+
+    const imagePath = path.join(finalDir, 'images', `${tokenId}.png`);
+    await fs.writeFile(imagePath, buffer);
+    const renditions = await createRenditions(buffer, tokenId, finalDir, config.renditions || []);
+    const extraFiles = renditions.map(rendition => ({
+      path: rendition.path,
+      uri: getImageUrl(config, rendition.relativePath),
+      type: rendition.mimeType
+    }));
+
+    // Vector tokens keep the SVG as their image
+    const svgSource = path.join(config.outputDir, 'images', `${sourceId}.svg`);
+    const svgPath = source.image.endsWith('.svg') && await fs.pathExists(svgSource) ? path.join(finalDir, 'images', `${tokenId}.svg`) : null;
+    if (svgPath) {
+      await fs.copy(svgSource, svgPath);
+      extraFiles.push({ path: svgPath, uri: getImageUrl(config, `${tokenId}.svg`), type: SVG_MIME_TYPE });
+    }
+
+    // Animations move with the art, the metadata route serves them by the final token ID like the image
+    const animationSource = source.animation_url ? await findAnimationFile(config.outputDir, sourceId) : null;
+    let animationUrl = source.animation_url;
+    if (animationSource) {
+      const extension = path.extname(animationSource).slice(1);
+      const format = (Object.keys(ANIMATION_EXTENSIONS) as Array<AnimationConfig['format']>)
+        .find(key => ANIMATION_EXTENSIONS[key] === extension) as AnimationConfig['format'];
+      const relativePath = `${ANIMATION_FOLDER}/${tokenId}.${extension}`;
+      const animationPath = path.join(finalDir, 'images', relativePath);
+      await fs.copy(animationSource, animationPath);
+      animationUrl = getImageUrl(config, relativePath);
+      extraFiles.push({ path: animationPath, uri: animationUrl, type: ANIMATION_MIME_TYPES[format] });
+    }
+
+    // Generated names and descriptions may carry the pre-reveal token ID, hand-authored ones are kept.
+    // The pool name stays with the art.
+    const preReveal = renderTokenText(config, sourceId, source.attributes, source.timestamp);
+    const final = renderTokenText(config, tokenId, source.attributes, source.timestamp, sourceId);
+
+    const imageUrl = getImageUrl(config, `${tokenId}.png`);
+    const thumbnail = renditions.find(rendition => rendition.thumbnail);
+    const metadata: NFTMetadata = {
+      ...source,
+      name: source.name === preReveal.name ? final.name : source.name,
+      description: source.description === preReveal.description ? final.description : source.description,
+      image: svgPath ? getImageUrl(config, `${tokenId}.svg`) : imageUrl,
+      image_thumbnail: thumbnail ? getImageUrl(config, thumbnail.relativePath) : undefined,
+      animation_url: animationUrl,
+      // Links to our own site name the token, so they follow it to its final ID
+      external_url: getExternalUrl(config, tokenId) ?? source.external_url,
+      properties: extraFiles.length > 0
+        ? {
+          files: [
+            { uri: imageUrl, type: 'image/png' },
+            ...extraFiles.map(file => ({ uri: file.uri, type: file.type }))
+          ]
+        }
+        : undefined
+    };
+
+    assertValidNFTMetadata(metadata, `final NFT #${tokenId}`);
+    const metadataPath = path.join(finalDir, 'metadata', `${tokenId}.json`);
+    await fs.writeJson(metadataPath, metadata, { spaces: 2 });
+    writeLocalizedMetadata(config, tokenId, metadata, path.dirname(metadataPath), sourceId);
+
+    layout.push({ tokenId, imagePath, metadataPath, renditionPaths: extraFiles.map(file => file.path) });
+  }
+
+  return layout;
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { CanvasRenderingContext2D } from 'canvas';
+import qrcode from 'qrcode-generator';
+
+// A QR code with a verification code drawn onto every NFT, linking a shared image back to its token
+export interface QRBadgeConfig {
+  url: string;  // e.g. "https://nft.example.com/api/nft-metadata/{tokenId}" or "{explorerUrl}/token/{contractAddress}/{tokenId}"
+  size?: number;  // Width of the QR code in pixels, defaults to 96
+  x?: number;  // Left edge of the badge, defaults to the right side of the canvas
+  y?: number;  // Top edge of the badge, defaults to the bottom of the canvas
+  margin?: number;  // Distance to the canvas edges when x or y is omitted, defaults to 16
+  color?: string;  // Dark modules and the verification code
+  backgroundColor?: string;  // Light modules, the quiet zone and the space behind the code
+  errorCorrection?: 'L' | 'M' | 'Q' | 'H';  // Higher levels survive more damage but need more modules
+  showCode?: boolean;  // Print the verification code under the QR code, defaults to true
+  fontFamily?: string;  // Family of a bundled font
+}
+
+// Modules of light border around the code - scanners need it to find the code on busy art
+const QUIET_ZONE_MODULES = 2;
+
+/**
+ * Short code printed next to the QR code - anyone with the token's metadata can recompute it
+ */
+export function getVerificationCode(collectionName: string, tokenId: number, dna: string): string {
+  const hash = crypto.createHash('sha256').update(`${collectionName}:${tokenId}:${dna}`).digest('hex').toUpperCase();
+  return `${hash.slice(0, 4)}-${hash.slice(4, 8)}`;
+}
+
+/**
+ * Fill in the link of the QR code
+ *
+ * Besides "{tokenId}" and "{collectionName}", "{contractAddress}" and "{explorerUrl}" come from the environment.
+ */
+export function getBadgeUrl(badge: QRBadgeConfig, collectionName: string, tokenId: number): string {
+  return badge.url
+    .replace(/\{tokenId\}/g, String(tokenId))
+    .replace(/\{collectionName\}/g, encodeURIComponent(collectionName))
+    .replace(/\{contractAddress\}/g, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '')
+    .replace(/\{explorerUrl\}/g, (process.env.NEXT_PUBLIC_BLOCKCHAIN_EXPLORER_URL || '').replace(/\/$/, ''));
+}
+
+/**
+ * Draw the QR badge of a token, without any network access
+ */
+export function drawQRBadge(
+  ctx: CanvasRenderingContext2D,
+  badge: QRBadgeConfig,
+  context: { collectionName: string; tokenId: number; dna: string },
+  width: number,
+  height: number
+): void {
+  const qr = qrcode(0, badge.errorCorrection || 'M');
+  qr.addData(getBadgeUrl(badge, context.collectionName, context.tokenId));
+  qr.make();
+
+  const size = badge.size ?? 96;
+  const margin = badge.margin ?? 16;
+  const moduleCount = qr.getModuleCount() + QUIET_ZONE_MODULES * 2;
+  const cellSize = size / moduleCount;
+  if (cellSize < 1) {
+    throw new Error(`QR badge of ${size}px is too small for its link, it needs at least ${moduleCount}px`);
+  }
+  const fontSize = Math.max(8, Math.round(size / 8));
+  const codeHeight = badge.showCode === false ? 0 : fontSize + 4;
+
+  const x = badge.x ?? width - margin - size;
+  const y = badge.y ?? height - margin - size - codeHeight;
+
+  ctx.save();
+  ctx.fillStyle = badge.backgroundColor || 'white';
+  ctx.fillRect(x, y, size, size + codeHeight);
+
+  // Snap the modules to whole pixels so neighbouring modules don't leave seams between them
+  ctx.fillStyle = badge.color || 'black';
+  for (let row = 0; row < qr.getModuleCount(); row++) {
+    for (let col = 0; col < qr.getModuleCount(); col++) {
+      if (!qr.isDark(row, col)) {
+        continue;
+      }
+      const left = Math.round(x + (col + QUIET_ZONE_MODULES) * cellSize);
+      const top = Math.round(y + (row + QUIET_ZONE_MODULES) * cellSize);
+      const right = Math.round(x + (col + QUIET_ZONE_MODULES + 1) * cellSize);
+      const bottom = Math.round(y + (row + QUIET_ZONE_MODULES + 1) * cellSize);
+      ctx.fillRect(left, top, right - left, bottom - top);
+    }
+  }
+
+  if (codeHeight > 0) {
+    ctx.font = `500 ${fontSize}px "${badge.fontFamily || 'Noto Sans Mono'}"`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(getVerificationCode(context.collectionName, context.tokenId, context.dna), x + size / 2, y + size + codeHeight - 2);
+  }
+
+  ctx.restore();
+}
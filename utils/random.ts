@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+// A source of random numbers in [0, 1), compatible with Math.random
+export type RandomSource = () => number;
+
+// File inside a collection output directory that holds the collection seed and config
+export const COLLECTION_FILE = 'collection.json';
+
+/**
+ * Create a seeded PRNG (sfc32) keyed by the given parts, e.g. collection seed and token ID
+ */
+export function createSeededRandom(...parts: Array<string | number>): RandomSource {
+  // Hash the key so similar seeds still give unrelated sequences
+  const hash = crypto.createHash('sha256').update(parts.join(':')).digest();
+  let a = hash.readUInt32LE(0);
+  let b = hash.readUInt32LE(4);
+  let c = hash.readUInt32LE(8);
+  let d = hash.readUInt32LE(12);
+
+  const next = () => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) >>> 0;
+    return t / 4294967296;
+  };
+
+  // Discard the first outputs so the state is well mixed
+  for (let i = 0; i < 12; i++) {
+    next();
+  }
+
+  return next;
+}
+
+/**
+ * Get the seed of a collection, creating and persisting a new one the first time
+ *
+ * @param create - Create a seed when the collection has none, otherwise return undefined
+ */
+export async function getCollectionSeed(outputDir: string, create: boolean = true): Promise<string | undefined> {
+  const collectionFile = path.join(outputDir, COLLECTION_FILE);
+  const collection = (await fs.pathExists(collectionFile)) ? await fs.readJson(collectionFile) : {};
+
+  if (typeof collection.seed === 'string' && collection.seed) {
+    return collection.seed;
+  }
+
+  if (!create) {
+    return undefined;
+  }
+
+  collection.seed = crypto.randomBytes(16).toString('hex');
+  await fs.ensureDir(outputDir);
+  await fs.writeJson(collectionFile, collection, { spaces: 2 });
+  console.log(`Created new collection seed in ${collectionFile}`);
+
+  return collection.seed;
+}
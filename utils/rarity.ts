@@ -0,0 +1,252 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { NFTMetadata, RARITY_TRAIT_TYPE } from './nftGenerator';
+import { assertValidNFTMetadata } from './metadataSchema';
+import { findLocalizedMetadata, LOCALE_PATTERN } from './localization';
+import { downloadFromMinio, listMinioObjects, MinioConfig, uploadBufferToMinio } from './minioClient';
+
+// Attributes written back by the rarity engine, never scored themselves
+export const RARITY_SCORE_TRAIT = 'rarity_score';
+export const RARITY_RANK_TRAIT = 'rarity_rank';
+
+// Value used for a trait type a token doesn't have, so missing traits count as rare too
+const MISSING_TRAIT_VALUE = 'None';
+
+// File inside a collection output directory that holds the last rarity report
+const RARITY_REPORT_FILE = 'rarity-report.json';
+
+export interface TokenRarity {
+  tokenId: number;
+  statisticalRarity: number;  // Product of the trait frequencies - lower is rarer
+  rarityScore: number;  // Sum of 1 / frequency over all traits - higher is rarer
+  informationContent: number;  // Sum of -log2(frequency) in bits - higher is rarer, used for ranking
+  rank: number;  // 1 is the rarest token
+}
+
+export interface RarityReport {
+  totalTokens: number;
+  traitFrequencies: Record<string, Record<string, { count: number; frequency: number }>>;
+  tokens: TokenRarity[];
+  generatedAt: string;
+}
+
+/**
+ * Only categorical traits are scored - numeric stats and the rarity attributes themselves are skipped
+ *
+ * The "Rarity" attribute repeats the trait of the rarity layer, scoring it would count that layer twice.
+ */
+function getScoredTraits(metadata: NFTMetadata): Record<string, string> {
+  const traits: Record<string, string> = {};
+
+  for (const attribute of metadata.attributes || []) {
+    const isNumeric = typeof attribute.value === 'number' || attribute.display_type !== undefined;
+    const isDerived = [RARITY_TRAIT_TYPE, RARITY_SCORE_TRAIT, RARITY_RANK_TRAIT].includes(attribute.trait_type);
+    if (isNumeric || isDerived) {
+      continue;
+    }
+    traits[attribute.trait_type] = String(attribute.value);
+  }
+
+  return traits;
+}
+
+/**
+ * Read all metadata of a collection from its local metadata folder, keyed by token ID
+ */
+export async function loadLocalMetadata(outputDir: string): Promise<Record<number, NFTMetadata>> {
+  const metadataDir = path.join(outputDir, 'metadata');
+  const metadata: Record<number, NFTMetadata> = {};
+
+  if (!(await fs.pathExists(metadataDir))) {
+    return metadata;
+  }
+
+  for (const file of await fs.readdir(metadataDir)) {
+    const tokenId = parseInt(file.replace('.json', ''), 10);
+    if (!file.endsWith('.json') || isNaN(tokenId)) {
+      continue;
+    }
+    metadata[tokenId] = await fs.readJson(path.join(metadataDir, file));
+  }
+
+  return metadata;
+}
+
+/**
+ * Read all metadata of a collection from a MinIO prefix such as "metadata/", keyed by token ID
+ */
+export async function loadMinioMetadata(config: MinioConfig, prefix: string): Promise<Record<number, NFTMetadata>> {
+  const metadata: Record<number, NFTMetadata> = {};
+
+  for (const key of await listMinioObjects(config, prefix)) {
+    // Only direct children like metadata/12.json, not nested folders
+    const tokenId = parseInt(path.basename(key, '.json'), 10);
+    if (!key.endsWith('.json') || path.dirname(key) !== prefix.replace(/\/+$/, '') || isNaN(tokenId)) {
+      continue;
+    }
+
+    const buffer = await downloadFromMinio(config, key);
+    if (buffer) {
+      metadata[tokenId] = JSON.parse(buffer.toString('utf8'));
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Compute trait frequencies, rarity scores and ranks for every token in a collection
+ */
+export function computeRarity(metadata: Record<number, NFTMetadata>): RarityReport {
+  const tokenIds = Object.keys(metadata).map(Number).sort((a, b) => a - b);
+  const totalTokens = tokenIds.length;
+  const traitsByToken = new Map(tokenIds.map(tokenId => [tokenId, getScoredTraits(metadata[tokenId])]));
+
+  const traitTypes = new Set<string>();
+  traitsByToken.forEach(traits => Object.keys(traits).forEach(type => traitTypes.add(type)));
+
+  // Count every value, including "None" for tokens without the trait type
+  const traitFrequencies: RarityReport['traitFrequencies'] = {};
+  for (const type of traitTypes) {
+    traitFrequencies[type] = {};
+    for (const traits of traitsByToken.values()) {
+      const value = traits[type] ?? MISSING_TRAIT_VALUE;
+      const entry = traitFrequencies[type][value] || { count: 0, frequency: 0 };
+      entry.count++;
+      traitFrequencies[type][value] = entry;
+    }
+    for (const entry of Object.values(traitFrequencies[type])) {
+      entry.frequency = entry.count / totalTokens;
+    }
+  }
+
+  const scored = tokenIds.map(tokenId => {
+    const traits = traitsByToken.get(tokenId) || {};
+    let statisticalRarity = 1;
+    let rarityScore = 0;
+    let informationContent = 0;
+
+    for (const type of traitTypes) {
+      const { frequency } = traitFrequencies[type][traits[type] ?? MISSING_TRAIT_VALUE];
+      statisticalRarity *= frequency;
+      rarityScore += 1 / frequency;
+      informationContent += -Math.log2(frequency);
+    }
+
+    return { tokenId, statisticalRarity, rarityScore, informationContent, rank: 0 };
+  });
+
+  // Standard competition ranking - equal scores share a rank
+  const byRarity = [...scored].sort((a, b) => b.informationContent - a.informationContent || a.tokenId - b.tokenId);
+  byRarity.forEach((token, index) => {
+    const previous = byRarity[index - 1];
+    token.rank = previous && Math.abs(previous.informationContent - token.informationContent) < 1e-9
+      ? previous.rank
+      : index + 1;
+  });
+
+  return {
+    totalTokens,
+    traitFrequencies,
+    tokens: scored,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Replace the rarity attributes of a token's metadata with the computed ones
+ */
+export function applyRarityToMetadata(metadata: NFTMetadata, rarity: TokenRarity): NFTMetadata {
+  const attributes = (metadata.attributes || []).filter(attribute =>
+    attribute.trait_type !== RARITY_SCORE_TRAIT && attribute.trait_type !== RARITY_RANK_TRAIT
+  );
+
+  return {
+    ...metadata,
+    attributes: [
+      ...attributes,
+      { trait_type: RARITY_SCORE_TRAIT, value: Math.round(rarity.rarityScore * 100) / 100 },
+      { trait_type: RARITY_RANK_TRAIT, value: rarity.rank }
+    ]
+  };
+}
+
+/**
+ * Persist a rarity report next to the collection output
+ */
+export async function saveRarityReport(outputDir: string, report: RarityReport): Promise<string> {
+  const reportPath = path.join(outputDir, RARITY_REPORT_FILE);
+  await fs.ensureDir(outputDir);
+  await fs.writeJson(reportPath, report, { spaces: 2 });
+  return reportPath;
+}
+
+/**
+ * Write the rarity attributes back into the local metadata files, translations included
+ */
+export async function writeRarityToLocalMetadata(
+  outputDir: string,
+  metadata: Record<number, NFTMetadata>,
+  report: RarityReport
+): Promise<void> {
+  for (const rarity of report.tokens) {
+    const metadataPath = path.join(outputDir, 'metadata', `${rarity.tokenId}.json`);
+    const updated = applyRarityToMetadata(metadata[rarity.tokenId], rarity);
+    assertValidNFTMetadata(updated, `NFT #${rarity.tokenId}`);
+    await fs.writeJson(metadataPath, updated, { spaces: 2 });
+
+    for (const localized of await findLocalizedMetadata(metadataPath)) {
+      const updatedLocalized = applyRarityToMetadata(await fs.readJson(localized.path), rarity);
+      assertValidNFTMetadata(updatedLocalized, `NFT #${rarity.tokenId} (${localized.locale})`);
+      await fs.writeJson(localized.path, updatedLocalized, { spaces: 2 });
+    }
+  }
+}
+
+/**
+ * Write the rarity attributes back into the metadata stored under a MinIO prefix, translations included
+ *
+ * Translations are stored as <prefix>/<locale>/<id>.json, see getLocalizedMetadataKey.
+ */
+export async function writeRarityToMinioMetadata(
+  config: MinioConfig,
+  prefix: string,
+  metadata: Record<number, NFTMetadata>,
+  report: RarityReport
+): Promise<number> {
+  let failed = 0;
+  const basePrefix = prefix.replace(/\/+$/, '');
+  const localizedKeys = (await listMinioObjects(config, `${basePrefix}/`)).filter(key => {
+    const parts = key.slice(basePrefix.length + 1).split('/');
+    return parts.length === 2 && LOCALE_PATTERN.test(parts[0]) && parts[1].endsWith('.json');
+  });
+
+  for (const rarity of report.tokens) {
+    const updated = applyRarityToMetadata(metadata[rarity.tokenId], rarity);
+    assertValidNFTMetadata(updated, `NFT #${rarity.tokenId}`);
+    const url = await uploadBufferToMinio(
+      config,
+      Buffer.from(JSON.stringify(updated, null, 2)),
+      `${basePrefix}/${rarity.tokenId}.json`,
+      'application/json'
+    );
+    if (!url) {
+      failed++;
+    }
+
+    for (const key of localizedKeys.filter(key => path.basename(key) === `${rarity.tokenId}.json`)) {
+      const buffer = await downloadFromMinio(config, key);
+      if (!buffer) {
+        failed++;
+        continue;
+      }
+      const updatedLocalized = applyRarityToMetadata(JSON.parse(buffer.toString('utf8')), rarity);
+      assertValidNFTMetadata(updatedLocalized, key);
+      if (!(await uploadBufferToMinio(config, Buffer.from(JSON.stringify(updatedLocalized, null, 2)), key, 'application/json'))) {
+        failed++;
+      }
+    }
+  }
+
+  return failed;
+}
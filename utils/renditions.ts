@@ -0,0 +1,99 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+
+// An extra encoding or size of the generated image
+export interface RenditionConfig {
+  name: string;  // Folder under images/, e.g. "thumbnail" -> images/thumbnail/<tokenId>.webp
+  format: 'png' | 'webp' | 'avif' | 'jpeg';
+  size?: number;  // Longest edge in pixels, omit to keep the original size
+  quality?: number;  // 1-100, ignored for PNG
+  thumbnail?: boolean;  // Reference this rendition as image_thumbnail in the metadata
+}
+
+export interface Rendition {
+  name: string;
+  path: string;  // Local file path
+  relativePath: string;  // Path relative to the images folder, also used for the storage key
+  mimeType: string;
+  width: number;
+  height: number;
+  thumbnail: boolean;
+}
+
+export const RENDITION_MIME_TYPES: Record<RenditionConfig['format'], string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg'
+};
+
+const RENDITION_EXTENSIONS: Record<RenditionConfig['format'], string> = {
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  jpeg: 'jpg'
+};
+
+/**
+ * Encode a single rendition of a PNG buffer
+ */
+export async function encodeRendition(buffer: Buffer, rendition: RenditionConfig): Promise<{ data: Buffer; width: number; height: number }> {
+  let image = sharp(buffer);
+
+  if (rendition.size) {
+    image = image.resize(rendition.size, rendition.size, { fit: 'inside', withoutEnlargement: true });
+  }
+
+  const quality = rendition.quality;
+  switch (rendition.format) {
+    case 'webp':
+      image = image.webp({ quality });
+      break;
+    case 'avif':
+      image = image.avif({ quality });
+      break;
+    case 'jpeg':
+      // JPEG has no alpha channel, flatten onto white like the canvas background
+      image = image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+      break;
+    default:
+      image = image.png();
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Write every configured rendition of a token image to images/<name>/<tokenId>.<ext>
+ */
+export async function createRenditions(
+  buffer: Buffer,
+  tokenId: number,
+  outputDir: string,
+  renditions: RenditionConfig[]
+): Promise<Rendition[]> {
+  const created: Rendition[] = [];
+
+  for (const rendition of renditions) {
+    const relativePath = `${rendition.name}/${tokenId}.${RENDITION_EXTENSIONS[rendition.format]}`;
+    const outputPath = path.join(outputDir, 'images', relativePath);
+
+    const { data, width, height } = await encodeRendition(buffer, rendition);
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, data);
+
+    created.push({
+      name: rendition.name,
+      path: outputPath,
+      relativePath,
+      mimeType: RENDITION_MIME_TYPES[rendition.format],
+      width,
+      height,
+      thumbnail: !!rendition.thumbnail
+    });
+  }
+
+  return created;
+}
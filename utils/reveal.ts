@@ -0,0 +1,190 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { downloadFromMinio, MinioConfig, uploadBufferToMinio } from './minioClient';
+import { renderTemplate } from './templates';
+import { getStoragePrefix } from './collectionConfig';
+import type { NFTMetadata } from './nftGenerator';
+
+// Object inside a collection's storage prefix that holds its reveal state
+const REVEAL_STATE_KEY = 'reveal.json';
+
+// Template for the metadata served while a token is hidden
+const PLACEHOLDER_METADATA_PATH = path.join(process.cwd(), 'public', 'assets', 'placeholder', 'placeholder.json');
+
+// How long the on-chain supply is reused before asking the chain again
+const TOTAL_SUPPLY_CACHE_MS = 30 * 1000;
+
+export interface RevealRange {
+  from: number;
+  to: number;  // Inclusive
+}
+
+export interface RevealState {
+  revealed: boolean;  // Every token is revealed
+  revealedRanges: RevealRange[];  // Tokens revealed ahead of the global reveal
+  hideAboveSupply: boolean;  // Keep tokens above the on-chain supply hidden, even after the reveal
+  updatedAt?: string;
+}
+
+// Collections without a reveal state keep serving their real assets
+export const DEFAULT_REVEAL_STATE: RevealState = {
+  revealed: true,
+  revealedRanges: [],
+  hideAboveSupply: false
+};
+
+let cachedTotalSupply: { value: number; fetchedAt: number } | null = null;
+
+/**
+ * Storage prefix of a collection with trailing slash - the default collection lives at the bucket root
+ */
+export function getCollectionPrefix(collection?: string): string {
+  return collection ? `${getStoragePrefix(collection)}/` : '';
+}
+
+/**
+ * Read the collection slug from a "?collection=" query parameter, ignoring anything that isn't a valid slug
+ */
+export function parseCollectionParam(value: string | null): string | undefined {
+  return value && /^[a-z0-9-]+$/.test(value) ? value : undefined;
+}
+
+/**
+ * Read the reveal state of a collection from MinIO
+ */
+export async function loadRevealState(config: MinioConfig, collection?: string): Promise<RevealState> {
+  const buffer = await downloadFromMinio(config, `${getCollectionPrefix(collection)}${REVEAL_STATE_KEY}`);
+
+  if (!buffer) {
+    return { ...DEFAULT_REVEAL_STATE };
+  }
+
+  return { ...DEFAULT_REVEAL_STATE, ...JSON.parse(buffer.toString('utf8')) };
+}
+
+/**
+ * Store the reveal state of a collection in MinIO
+ */
+export async function saveRevealState(config: MinioConfig, state: RevealState, collection?: string): Promise<boolean> {
+  const url = await uploadBufferToMinio(
+    config,
+    Buffer.from(JSON.stringify({ ...state, updatedAt: new Date().toISOString() }, null, 2)),
+    `${getCollectionPrefix(collection)}${REVEAL_STATE_KEY}`,
+    'application/json'
+  );
+
+  return url !== null;
+}
+
+/**
+ * Add a range of revealed tokens, merging it with overlapping or adjacent ranges
+ */
+export function addRevealRange(ranges: RevealRange[], range: RevealRange): RevealRange[] {
+  const sorted = [...ranges, range].sort((a, b) => a.from - b.from);
+  const merged: RevealRange[] = [];
+
+  for (const current of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && current.from <= last.to + 1) {
+      last.to = Math.max(last.to, current.to);
+    } else {
+      merged.push({ ...current });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Remove a range of tokens from the revealed ranges, splitting ranges where needed
+ */
+export function removeRevealRange(ranges: RevealRange[], range: RevealRange): RevealRange[] {
+  return ranges.flatMap(current => {
+    if (current.to < range.from || current.from > range.to) {
+      return [current];
+    }
+    return [
+      ...(current.from < range.from ? [{ from: current.from, to: range.from - 1 }] : []),
+      ...(current.to > range.to ? [{ from: range.to + 1, to: current.to }] : [])
+    ];
+  });
+}
+
+/**
+ * Decide whether a token's real assets may be served
+ *
+ * @param totalSupply - Current on-chain supply, or null when unknown - every token is hidden then
+ */
+export function isTokenRevealed(state: RevealState, tokenId: number, totalSupply: number | null): boolean {
+  // Unminted tokens stay hidden, otherwise their art could be sniped before mint. Without the supply
+  // there's no telling which tokens are minted.
+  if (state.hideAboveSupply && (totalSupply === null || tokenId > totalSupply)) {
+    return false;
+  }
+
+  return state.revealed || state.revealedRanges.some(range => tokenId >= range.from && tokenId <= range.to);
+}
+
+/**
+ * Fetch the current total supply of the NFT contract, or null when the chain can't be reached
+ */
+export async function fetchOnChainTotalSupply(): Promise<number | null> {
+  if (cachedTotalSupply && Date.now() - cachedTotalSupply.fetchedAt < TOTAL_SUPPLY_CACHE_MS) {
+    return cachedTotalSupply.value;
+  }
+
+  const apiUrl = process.env.NEXT_PUBLIC_SETTLEMINT_API_URL || '';
+  const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '';
+  if (!apiUrl || !contractAddress) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/erc-721/${contractAddress}/total-supply`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'x-auth-token': process.env.NEXT_PUBLIC_SETTLEMINT_TOKEN || ''
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    // The API returns either the number itself or an object holding it
+    const result = await response.json();
+    const totalSupply = typeof result === 'object' && result !== null
+      ? result.totalSupply ?? result.total ?? result.supply ?? result.count ?? result.value
+      : result;
+    const value = parseInt(String(totalSupply), 10);
+
+    if (isNaN(value)) {
+      throw new Error(`Unexpected total supply response: ${JSON.stringify(result)}`);
+    }
+
+    cachedTotalSupply = { value, fetchedAt: Date.now() };
+    return value;
+  } catch (error) {
+    console.error('Failed to fetch total supply for reveal check:', error);
+    return null;
+  }
+}
+
+/**
+ * Build the placeholder metadata of a hidden token from the placeholder template
+ *
+ * The template's name and description may use "{tokenId}" and "{collectionName}".
+ */
+export async function buildPlaceholderMetadata(tokenId: number, collectionName: string, image: string): Promise<NFTMetadata> {
+  const template = await fs.readJson(PLACEHOLDER_METADATA_PATH);
+  const timestamp = new Date().toISOString();
+  const render = (value: string) => renderTemplate(value, { collectionName, tokenId, timestamp, traits: {} });
+
+  return {
+    ...template,
+    name: render(template.name || '{collectionName} #{tokenId}'),
+    description: render(template.description || ''),
+    image,
+    attributes: template.attributes || [],
+    timestamp
+  };
+}
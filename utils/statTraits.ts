@@ -0,0 +1,175 @@
+import { CanvasRenderingContext2D } from 'canvas';
+import { RandomSource } from './random';
+import type { NFTAttribute, NFTDisplayType } from './nftGenerator';
+
+// A bar drawn on the canvas that shows where a stat falls within its range
+export interface StatBarConfig {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;  // Filled part of the bar
+  backgroundColor?: string;  // Empty part of the bar
+  label?: boolean;  // Draw "<name> <value>" above the bar
+  fontFamily?: string;  // Family of a bundled font
+  fontSize?: number;
+}
+
+// A non-visual trait rolled per token, like the stats of our curated dogs
+export interface StatTraitConfig {
+  name: string;  // Written as the trait_type
+  min: number | string;  // Lowest value - dates also accept ISO strings like "2015-01-01"
+  max: number | string;  // Highest value (inclusive)
+  displayType?: NFTDisplayType;  // Defaults to "number"
+  distribution?: 'uniform' | 'normal';  // "normal" clusters values around the middle of the range
+  weights?: Record<string, number>;  // Weight per whole value, e.g. { "1": 10, "5": 1 } - overrides the distribution
+  decimals?: number;  // Decimal places of the value, defaults to whole numbers
+  showMaxValue?: boolean;  // Write max_value so marketplaces show "3 of 5" - defaults to true for "number"
+  bar?: StatBarConfig;
+}
+
+/**
+ * Resolve a range bound to a number - date bounds become unix timestamps in seconds
+ */
+function resolveBound(stat: StatTraitConfig, bound: number | string): number {
+  if (typeof bound === 'number') {
+    return bound;
+  }
+
+  const time = Date.parse(bound);
+  if (stat.displayType !== 'date' || isNaN(time)) {
+    throw new Error(`Invalid bound "${bound}" for stat trait "${stat.name}"`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Get the numeric range of a stat trait
+ */
+export function getStatRange(stat: StatTraitConfig): { min: number; max: number } {
+  return { min: resolveBound(stat, stat.min), max: resolveBound(stat, stat.max) };
+}
+
+/**
+ * Check the stat trait configs, so a broken config fails before anything is generated
+ */
+export function validateStatTraits(stats: StatTraitConfig[]): void {
+  const names = new Set<string>();
+
+  for (const stat of stats) {
+    if (names.has(stat.name)) {
+      throw new Error(`Duplicate stat trait "${stat.name}"`);
+    }
+    names.add(stat.name);
+
+    const { min, max } = getStatRange(stat);
+    if (min > max) {
+      throw new Error(`Stat trait "${stat.name}" has min ${stat.min} greater than max ${stat.max}`);
+    }
+
+    for (const [value, weight] of Object.entries(stat.weights || {})) {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < min || number > max || weight < 0) {
+        throw new Error(`Invalid weight ${value}: ${weight} for stat trait "${stat.name}"`);
+      }
+    }
+
+    if (stat.bar && stat.displayType === 'date') {
+      throw new Error(`Stat trait "${stat.name}" is a date and cannot be drawn as a bar`);
+    }
+  }
+}
+
+/**
+ * Pick a whole value by weight, with one draw from the random source
+ */
+function pickWeightedValue(weights: Record<string, number>, random: RandomSource): number {
+  const entries = Object.entries(weights);
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = random() * totalWeight;
+
+  for (const [value, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) {
+      return Number(value);
+    }
+  }
+
+  return Number(entries[entries.length - 1][0]);
+}
+
+/**
+ * Roll a single stat value within its range
+ */
+function rollStatValue(stat: StatTraitConfig, random: RandomSource): number {
+  if (stat.weights && Object.keys(stat.weights).length > 0) {
+    return pickWeightedValue(stat.weights, random);
+  }
+
+  const { min, max } = getStatRange(stat);
+  // Dates are always whole seconds
+  const decimals = stat.displayType === 'date' ? 0 : stat.decimals ?? 0;
+  const step = Math.pow(10, -decimals);
+
+  // Averaging three draws gives a bell curve that never leaves the range
+  const position = stat.distribution === 'normal'
+    ? (random() + random() + random()) / 3
+    : random();
+
+  // Spread over whole steps so min and max are as likely as any other value
+  const steps = Math.round((max - min) / step);
+  const value = min + Math.min(Math.floor(position * (steps + 1)), steps) * step;
+
+  return Number(value.toFixed(decimals));
+}
+
+/**
+ * Roll every stat trait of a token, in config order, from the token's random source
+ */
+export function rollStatTraits(stats: StatTraitConfig[], random: RandomSource): NFTAttribute[] {
+  return stats.map(stat => {
+    const displayType = stat.displayType || 'number';
+    const attribute: NFTAttribute = {
+      trait_type: stat.name,
+      value: rollStatValue(stat, random),
+      display_type: displayType
+    };
+
+    if (stat.showMaxValue ?? displayType === 'number') {
+      attribute.max_value = getStatRange(stat).max;
+    }
+
+    return attribute;
+  });
+}
+
+/**
+ * Draw the bars of all stats that have one configured
+ */
+export function drawStatBars(ctx: CanvasRenderingContext2D, stats: StatTraitConfig[], values: NFTAttribute[]): void {
+  for (const stat of stats) {
+    const value = values.find(attribute => attribute.trait_type === stat.name)?.value;
+    if (!stat.bar || typeof value !== 'number') {
+      continue;
+    }
+
+    const { bar } = stat;
+    const { min, max } = getStatRange(stat);
+    const fill = max > min ? (value - min) / (max - min) : 1;
+
+    ctx.save();
+    ctx.fillStyle = bar.backgroundColor || 'rgba(0, 0, 0, 0.4)';
+    ctx.fillRect(bar.x, bar.y, bar.width, bar.height);
+    ctx.fillStyle = bar.color || 'white';
+    ctx.fillRect(bar.x, bar.y, bar.width * fill, bar.height);
+
+    if (bar.label) {
+      ctx.font = `${bar.fontSize ?? 16}px "${bar.fontFamily || 'Public Sans'}"`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${stat.name} ${value}`, bar.x, bar.y - 4);
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,257 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+import { LayerRenderOptions, sortByZIndex } from './compositing';
+import { renderTemplate, TemplateContext } from './templates';
+import { TextOverlayConfig } from './textOverlay';
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+
+// Elements kept in layer SVGs, anything else is unwrapped and only its content is kept
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textpath', 'image',
+  'lineargradient', 'radialgradient', 'stop', 'pattern', 'clippath', 'mask', 'marker',
+  'filter', 'feblend', 'fecolormatrix', 'fecomponenttransfer', 'fecomposite', 'feconvolvematrix',
+  'fediffuselighting', 'fedisplacementmap', 'fedistantlight', 'fedropshadow', 'feflood', 'fefunca',
+  'fefuncb', 'fefuncg', 'fefuncr', 'fegaussianblur', 'feimage', 'femerge', 'femergenode',
+  'femorphology', 'feoffset', 'fepointlight', 'fespecularlighting', 'fespotlight', 'fetile', 'feturbulence'
+]);
+
+// Elements removed together with their content - scripts, embedded HTML and animations that can rewrite links
+const REMOVED_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video', 'canvas', 'set', 'animate', 'animateMotion', 'animateTransform'];
+
+// Links may only point inside the document or at embedded raster images
+const SAFE_HREF = /^(#|data:image\/(png|jpeg|gif|webp);)/i;
+
+// Canvas composite operations that have a CSS mix-blend-mode of the same name
+const BLEND_MODES = new Set([
+  'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light',
+  'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]);
+
+// A layer asset as placed in the composed document
+export interface SVGLayer {
+  path: string;
+  render: LayerRenderOptions;
+  layerIndex: number;  // Position of the layer in the config, the default z-index
+}
+
+/**
+ * Escape text for use in SVG content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Read the attributes of a tag as name and value pairs, keeping their original names
+ */
+function parseAttributes(source: string): Array<[string, string]> {
+  return [...source.matchAll(/([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)]
+    .map(match => [match[1], match[3] ?? match[4] ?? match[5] ?? '']);
+}
+
+/**
+ * Neutralize CSS that could fetch external resources
+ */
+function sanitizeCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, 'none')
+    .replace(/expression\s*\(/gi, '(');
+}
+
+/**
+ * Strip everything from an SVG that could run scripts or load external content
+ *
+ * Layer assets are uploaded by artists, so every element and attribute is checked against an allowlist.
+ */
+export function sanitizeSVG(svg: string): string {
+  let sanitized = svg
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/gi, '');
+
+  for (const element of REMOVED_ELEMENTS) {
+    sanitized = sanitized
+      .replace(new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}\\s*>`, 'gi'), '')
+      .replace(new RegExp(`<${element}\\b[^>]*>`, 'gi'), '');
+  }
+
+  sanitized = sanitized.replace(/<(\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?)>/g, (tag, closing: string, name: string, attributes: string, selfClosing: string) => {
+    if (!ALLOWED_ELEMENTS.has(name.toLowerCase())) {
+      return '';
+    }
+    if (closing) {
+      return `</${name}>`;
+    }
+
+    const safeAttributes = parseAttributes(attributes)
+      .filter(([attribute, value]) => {
+        const normalized = value.replace(/[\s\u0000-\u001f]/g, '').toLowerCase();
+        if (/^on/i.test(attribute) || /(java|vb)script:|data:text\/html/.test(normalized)) {
+          return false;
+        }
+        return !/^(xlink:)?href$/i.test(attribute) || SAFE_HREF.test(value.trim());
+      })
+      .map(([attribute, value]) => `${attribute}="${escapeXml(attribute.toLowerCase() === 'style' ? sanitizeCss(value) : value)}"`);
+
+    return `<${name}${safeAttributes.map(attribute => ` ${attribute}`).join('')}${selfClosing ? ' /' : ''}>`;
+  });
+
+  return sanitized.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (match, open: string, css: string, close: string) => `${open}${sanitizeCss(css)}${close}`);
+}
+
+/**
+ * Check whether an SVG contains anything the sanitizer would strip
+ */
+export function hasUnsafeSVGContent(svg: string): boolean {
+  return /<(script|foreignObject|iframe|embed|object)\b|\son\w+\s*=|(java|vb)script:/i.test(svg);
+}
+
+/**
+ * Prefix the IDs and classes of a layer and the references to them, so layers can't clash with each other
+ */
+function scopeLayer(content: string, prefix: string): string {
+  return content
+    .replace(/\bid="([^"]+)"/g, (match, id: string) => `id="${prefix}${id}"`)
+    .replace(/\bclass="([^"]+)"/g, (match, classes: string) => `class="${classes.trim().split(/\s+/).map(name => `${prefix}${name}`).join(' ')}"`)
+    .replace(/url\(\s*(['"]?)#([^)'"]+)\1\s*\)/g, (match, quote: string, id: string) => `url(#${prefix}${id})`)
+    .replace(/\b((?:xlink:)?href)="#([^"]+)"/g, (match, attribute: string, id: string) => `${attribute}="#${prefix}${id}"`)
+    // Only the selectors of style rules, "#fff" in a declaration is a color
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (match, open: string, css: string, close: string) =>
+      `${open}${css.replace(/([^{}]*)\{/g, (rule, selector: string) => `${selector.replace(/([.#])(-?[_a-zA-Z][\w-]*)/g, `$1${prefix}$2`)}{`)}${close}`);
+}
+
+/**
+ * Split a layer SVG into its root size and its content
+ */
+export function parseSVGAsset(svg: string): { width: number; height: number; viewBox: string; content: string } {
+  const match = sanitizeSVG(svg).match(/<svg\b([^>]*)>([\s\S]*)<\/svg>/i);
+  if (!match) {
+    throw new Error('No <svg> root element found');
+  }
+
+  const attributes = new Map(parseAttributes(match[1]).map(([name, value]) => [name.toLowerCase(), value]));
+  const viewBox = attributes.get('viewbox')?.trim().split(/[\s,]+/).map(Number);
+  const width = parseFloat(attributes.get('width') || '') || viewBox?.[2] || 0;
+  const height = parseFloat(attributes.get('height') || '') || viewBox?.[3] || 0;
+
+  if (!width || !height) {
+    throw new Error('SVG has neither a size nor a viewBox');
+  }
+
+  return {
+    width,
+    height,
+    viewBox: viewBox?.length === 4 ? viewBox.join(' ') : `0 0 ${width} ${height}`,
+    content: match[2]
+  };
+}
+
+/**
+ * Build the markup of one layer, placed the same way drawLayer places it on a canvas
+ */
+async function renderSVGLayer(layer: SVGLayer, index: number, width: number, height: number): Promise<string> {
+  const options = layer.render;
+  const isSvg = path.extname(layer.path).toLowerCase() === '.svg';
+
+  let natural: { width: number; height: number };
+  let markup: (x: number, y: number, w: number, h: number) => string;
+
+  if (isSvg) {
+    const asset = parseSVGAsset(await fs.readFile(layer.path, 'utf8'));
+    natural = asset;
+    markup = (x, y, w, h) =>
+      `<svg x="${x}" y="${y}" width="${w}" height="${h}" viewBox="${asset.viewBox}" preserveAspectRatio="none">` +
+      `${scopeLayer(asset.content, `l${index}-`)}</svg>`;
+  } else {
+    // Raster layers are embedded, so the document stays self-contained
+    const buffer = await fs.readFile(layer.path);
+    const metadata = await sharp(buffer).metadata();
+    natural = { width: metadata.width || width, height: metadata.height || height };
+    markup = (x, y, w, h) =>
+      `<image x="${x}" y="${y}" width="${w}" height="${h}" preserveAspectRatio="none" href="data:image/png;base64,${buffer.toString('base64')}" />`;
+  }
+
+  const scale = options.scale ?? 1;
+  const drawWidth = (options.size === 'natural' ? natural.width : width) * scale;
+  const drawHeight = (options.size === 'natural' ? natural.height : height) * scale;
+  const x = options.offsetX ?? 0;
+  const y = options.offsetY ?? 0;
+
+  const attributes = [
+    options.opacity !== undefined ? `opacity="${Math.min(Math.max(options.opacity, 0), 1)}"` : '',
+    options.rotation ? `transform="rotate(${options.rotation} ${x + drawWidth / 2} ${y + drawHeight / 2})"` : '',
+    options.blendMode && BLEND_MODES.has(options.blendMode) ? `style="mix-blend-mode:${options.blendMode}"` : ''
+  ].filter(Boolean);
+
+  return `<g${attributes.map(attribute => ` ${attribute}`).join('')}>${markup(x, y, drawWidth, drawHeight)}</g>`;
+}
+
+/**
+ * Build a text overlay as a <text> element, matching how drawTextOverlays draws it on a canvas
+ */
+function renderSVGText(overlay: TextOverlayConfig, context: TemplateContext, width: number): string {
+  const text = renderTemplate(overlay.template, { ...context, timeZone: overlay.timeZone });
+  const anchor = { left: 'start', center: 'middle', right: 'end' }[overlay.align || 'center'];
+  const attributes = [
+    `x="${overlay.x ?? width / 2}"`,
+    `y="${overlay.y ?? 50}"`,
+    `font-family="${escapeXml(overlay.fontFamily || 'Public Sans')}"`,
+    `font-weight="${escapeXml(overlay.fontWeight || 'normal')}"`,
+    `font-size="${overlay.fontSize ?? 30}"`,
+    `fill="${escapeXml(overlay.color || 'white')}"`,
+    `text-anchor="${anchor}"`,
+    // Stroke below the fill, like the canvas renderer
+    ...(overlay.strokeColor
+      ? [`stroke="${escapeXml(overlay.strokeColor)}"`, `stroke-width="${overlay.strokeWidth ?? 3}"`, 'paint-order="stroke"']
+      : [])
+  ];
+
+  return `<text ${attributes.join(' ')}>${escapeXml(text)}</text>`;
+}
+
+/**
+ * Compose the layers and text overlays of a token into a single SVG document
+ */
+export async function composeSVG(
+  layers: SVGLayer[],
+  overlays: TextOverlayConfig[],
+  context: TemplateContext,
+  width: number,
+  height: number
+): Promise<string> {
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    // White background as default, like the canvas renderer
+    `<rect width="${width}" height="${height}" fill="white" />`
+  ];
+
+  for (const [index, layer] of sortByZIndex(layers, layer => layer.layerIndex).entries()) {
+    try {
+      parts.push(await renderSVGLayer(layer, index, width, height));
+    } catch (error) {
+      console.error(`Error loading image ${layer.path}:`, error);
+    }
+  }
+
+  parts.push(...overlays.map(overlay => renderSVGText(overlay, context, width)), '</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Rasterize an SVG document to PNG
+ *
+ * Text is drawn with the fonts installed on the system, the bundled fonts are only known to node-canvas.
+ */
+export async function rasterizeSVG(svg: string, width: number, height: number): Promise<Buffer> {
+  return sharp(Buffer.from(svg)).resize(width, height, { fit: 'fill' }).png().toBuffer();
+}
@@ -0,0 +1,184 @@
+import { createSeededRandom } from './random';
+
+// Values available to "{placeholder}" templates
+export interface TemplateContext {
+  collectionName: string;
+  tokenId: number;
+  timestamp: string;  // ISO timestamp of the generation
+  timeZone?: string;  // IANA time zone used for formatted timestamps, defaults to UTC
+  traits: Record<string, string | number>;  // Attribute values keyed by trait type, stats included
+  poolName?: string;  // Name picked from the collection's name pool
+}
+
+// Placeholders renderTemplate understands, "{if:...}", "{else}" and "{/if}" aside
+const PLACEHOLDERS = ['collectionName', 'tokenId', 'timestamp', 'trait', 'stat', 'poolName'];
+
+// "{if:Background=rare}...{/if}" without another "{if:" inside, so nested snippets resolve inside out
+const CONDITIONAL_PATTERN = /\{if:([^}=!<>]+?)\s*(!=|>=|<=|=|>|<)\s*([^}]*)\}((?:(?!\{if:)[\s\S])*?)\{\/if\}/g;
+
+/**
+ * Format an ISO timestamp with YYYY, MM, DD, HH, mm and ss tokens in the given time zone
+ */
+export function formatTimestamp(timestamp: string, format: string, timeZone: string = 'UTC'): string {
+  const date = new Date(timestamp);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  const tokens: Record<string, string> = {
+    YYYY: part('year'),
+    MM: part('month'),
+    DD: part('day'),
+    HH: part('hour'),
+    mm: part('minute'),
+    ss: part('second')
+  };
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
+
+/**
+ * Check a trait against the condition of an "{if:...}" snippet
+ *
+ * "=" accepts alternatives separated by "|", the other comparisons are numeric. A missing trait only matches "!=".
+ */
+function matchesCondition(value: string | number | undefined, operator: string, expected: string): boolean {
+  if (value === undefined) {
+    return operator === '!=';
+  }
+
+  switch (operator) {
+    case '=':
+      return expected.split('|').map(option => option.trim()).includes(String(value));
+    case '!=':
+      return !expected.split('|').map(option => option.trim()).includes(String(value));
+    default: {
+      const actual = Number(value);
+      const limit = Number(expected);
+      if (Number.isNaN(actual) || Number.isNaN(limit)) {
+        return false;
+      }
+      return operator === '>' ? actual > limit
+        : operator === '>=' ? actual >= limit
+        : operator === '<' ? actual < limit
+        : actual <= limit;
+    }
+  }
+}
+
+/**
+ * Resolve the "{if:Trait=value}...{else}...{/if}" snippets of a template
+ */
+function renderConditionals(template: string, context: TemplateContext): string {
+  let previous: string;
+  let output = template;
+
+  do {
+    previous = output;
+    output = output.replace(CONDITIONAL_PATTERN, (snippet, trait: string, operator: string, expected: string, body: string) => {
+      const [whenTrue, whenFalse = ''] = body.split('{else}');
+      return matchesCondition(context.traits[trait.trim()], operator, expected.trim()) ? whenTrue : whenFalse;
+    });
+  } while (output !== previous);
+
+  return output;
+}
+
+/**
+ * Fill in a template such as "{collectionName} #{tokenId}", "{timestamp:YYYY-MM-DD}" or "{trait:Background}"
+ *
+ * "{stat:Floof}" is a stat value, date stats take a format like "{stat:Birthday:YYYY-MM-DD}". Snippets such as
+ * "{if:Background=rare}A rare pup.{/if}" or "{if:Floof>=90}Very fluffy.{else}Fluffy.{/if}" depend on a trait.
+ * Unknown placeholders are left untouched so typos are visible in the output.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderConditionals(template, context).replace(/\{(\w+)(?::([^}]*))?\}/g, (placeholder, key: string, argument?: string) => {
+    switch (key) {
+      case 'collectionName':
+        return context.collectionName;
+      case 'tokenId':
+        return String(context.tokenId);
+      case 'timestamp':
+        // Without a format the raw ISO timestamp is used
+        return argument ? formatTimestamp(context.timestamp, argument, context.timeZone) : context.timestamp;
+      case 'trait':
+        return argument !== undefined && context.traits[argument] !== undefined
+          ? String(context.traits[argument])
+          : placeholder;
+      case 'stat': {
+        const [name, format] = (argument || '').split(/:(.*)/);
+        const value = context.traits[name];
+        if (typeof value !== 'number') {
+          return placeholder;
+        }
+        // Date stats are unix timestamps in seconds
+        return format ? formatTimestamp(new Date(value * 1000).toISOString(), format, context.timeZone) : String(value);
+      }
+      case 'poolName':
+        return context.poolName ?? placeholder;
+      default:
+        return placeholder;
+    }
+  });
+}
+
+/**
+ * Find mistakes in a template, e.g. unknown placeholders or unbalanced snippets (empty when valid)
+ */
+export function findTemplateErrors(template: string): string[] {
+  const errors: string[] = [];
+
+  const opened = (template.match(/\{if:/g) || []).length;
+  const closed = (template.match(/\{\/if\}/g) || []).length;
+  if (opened !== closed) {
+    errors.push(`has ${opened} "{if:...}" but ${closed} "{/if}"`);
+  }
+
+  for (const [placeholder, key, argument] of template.matchAll(/\{(\w+)(?::([^}]*))?\}/g)) {
+    if (key === 'if') {
+      if (!/^[^}=!<>]+?\s*(!=|>=|<=|=|>|<)/.test(argument || '')) {
+        errors.push(`"${placeholder}" needs a condition like "{if:Background=rare}" or "{if:Floof>=90}"`);
+      }
+    } else if (key !== 'else' && !PLACEHOLDERS.includes(key)) {
+      errors.push(`unknown placeholder "${placeholder}"`);
+    } else if ((key === 'trait' || key === 'stat') && !argument) {
+      errors.push(`"${placeholder}" needs a trait name like "{${key}:Background}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Pick a token's name from a name pool
+ *
+ * The pool is shuffled once per collection seed, so every name is used once before any name repeats.
+ * Repeats get a number, e.g. "Cooper 2".
+ */
+export function pickPoolName(pool: string[], tokenId: number, seed?: string): string {
+  if (pool.length === 0) {
+    throw new Error('Name pool is empty');
+  }
+
+  const names = [...pool];
+  if (seed) {
+    const random = createSeededRandom(seed, 'names');
+    for (let i = names.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [names[i], names[j]] = [names[j], names[i]];
+    }
+  }
+
+  const slot = tokenId - 1;
+  const round = Math.floor(slot / names.length);
+  const name = names[slot % names.length];
+  return round > 0 ? `${name} ${round + 1}` : name;
+}
@@ -0,0 +1,104 @@
+import { registerFont, CanvasRenderingContext2D } from 'canvas';
+import fs from 'fs-extra';
+import path from 'path';
+import { renderTemplate, TemplateContext } from './templates';
+
+// A line of text drawn onto every NFT
+export interface TextOverlayConfig {
+  template: string;  // e.g. "{collectionName} #{tokenId}" or "{timestamp:YYYY-MM-DD}"
+  fontFamily?: string;  // Family of a bundled font, e.g. "Public Sans" or "Noto Sans Mono"
+  fontWeight?: string;  // CSS weight, e.g. "bold" or "500"
+  fontSize?: number;  // Pixels
+  color?: string;
+  strokeColor?: string;  // Outline for readability on any background, omit for no outline
+  strokeWidth?: number;
+  x?: number;  // Defaults to the horizontal center of the canvas
+  y?: number;  // Defaults to 50
+  align?: 'left' | 'center' | 'right';
+  timeZone?: string;  // IANA time zone for "{timestamp:...}" placeholders, defaults to UTC
+}
+
+// Folder holding the fonts that ship with the app
+export const DEFAULT_FONTS_FOLDER = './public/assets/layers/fonts';
+
+// Font weight suffixes used in the bundled font file names
+const FONT_WEIGHTS: Record<string, string> = {
+  Thin: '100',
+  Light: '300',
+  Regular: 'normal',
+  Medium: '500',
+  SemiBold: '600',
+  Bold: 'bold',
+  Black: '900'
+};
+
+// Folders whose fonts were already registered with node-canvas
+const registeredFolders = new Set<string>();
+
+/**
+ * Derive the family and weight from a file name like "PublicSans-Bold.ttf"
+ */
+export function parseFontFileName(file: string): { family: string; weight: string } {
+  const [name, style = 'Regular'] = path.basename(file, path.extname(file)).split('-');
+
+  return {
+    // "NotoSansMono" -> "Noto Sans Mono"
+    family: name.replace(/([a-z])([A-Z])/g, '$1 $2'),
+    weight: FONT_WEIGHTS[style] || 'normal'
+  };
+}
+
+/**
+ * Register every font in the folder with node-canvas, so text renders the same on every server
+ *
+ * Must run before the canvas is created - node-canvas only picks up fonts registered beforehand.
+ */
+export function registerBundledFonts(fontsFolder: string = DEFAULT_FONTS_FOLDER): void {
+  const resolvedFolder = path.resolve(fontsFolder);
+  if (registeredFolders.has(resolvedFolder)) {
+    return;
+  }
+
+  if (!fs.existsSync(resolvedFolder)) {
+    console.log(`Warning: Fonts folder does not exist: ${fontsFolder}`);
+    return;
+  }
+
+  const fonts = fs.readdirSync(resolvedFolder).filter(file => /\.(ttf|otf)$/i.test(file));
+  for (const file of fonts) {
+    registerFont(path.join(resolvedFolder, file), parseFontFileName(file));
+  }
+
+  registeredFolders.add(resolvedFolder);
+}
+
+/**
+ * Draw all text overlays onto the canvas
+ */
+export function drawTextOverlays(
+  ctx: CanvasRenderingContext2D,
+  overlays: TextOverlayConfig[],
+  context: TemplateContext,
+  width: number
+): void {
+  for (const overlay of overlays) {
+    const text = renderTemplate(overlay.template, { ...context, timeZone: overlay.timeZone });
+    const x = overlay.x ?? width / 2;
+    const y = overlay.y ?? 50;
+
+    ctx.save();
+    ctx.font = `${overlay.fontWeight || 'normal'} ${overlay.fontSize ?? 30}px "${overlay.fontFamily || 'Public Sans'}"`;
+    ctx.textAlign = overlay.align || 'center';
+    ctx.fillStyle = overlay.color || 'white';
+
+    // Draw the stroke first so the fill stays crisp on top
+    if (overlay.strokeColor) {
+      ctx.strokeStyle = overlay.strokeColor;
+      ctx.lineWidth = overlay.strokeWidth ?? 3;
+      ctx.strokeText(text, x, y);
+    }
+    ctx.fillText(text, x, y);
+
+    ctx.restore();
+  }
+}
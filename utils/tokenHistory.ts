@@ -0,0 +1,330 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createTokenRandom, createUniqueCombination, generateNFT, NFTConfig, NFTMetadata, writeLocalizedMetadata } from './nftGenerator';
+import { isDNATaken, loadDNARegistry, registerDNA, saveDNARegistry } from './dnaRegistry';
+import { getOneOfOne } from './oneOfOnes';
+import { loadProvenance } from './provenance';
+import { createRenditions } from './renditions';
+import { ANIMATION_FOLDER, findAnimationFile } from './animation';
+
+// Folder inside a collection output directory that holds the version history of re-rolled tokens
+export const HISTORY_FOLDER = 'history';
+
+// How many re-roll numbers are tried before giving up on finding a combination other than the current one
+const MAX_REROLL_REVISIONS = 100;
+
+export interface TokenVersion {
+  version: number;
+  revision: number;  // Re-roll number the version was rendered from, 0 is the original roll
+  reason: string;
+  createdAt: string;
+  dna?: string;  // Absent for hand-made one-of-ones
+  imageKey: string;  // Relative to the output directory, also used for the storage key
+  metadataKey: string;
+  animationKey?: string;  // Only for animated tokens
+  svgKey?: string;  // Only for tokens of vector collections
+}
+
+export interface TokenHistoryEvent {
+  action: 'reroll' | 'rollback' | 'freeze';
+  version: number;  // Version that is current after the event
+  reason: string;
+  timestamp: string;
+}
+
+export interface TokenHistory {
+  tokenId: number;
+  currentVersion: number;
+  frozen: boolean;  // Frozen tokens are permanent, they can't be re-rolled or rolled back
+  versions: TokenVersion[];
+  events: TokenHistoryEvent[];
+}
+
+// Files written by a history change, for uploading them to storage
+export interface TokenHistoryChange {
+  history: TokenHistory;
+  historyPath: string;
+  imagePath: string;
+  metadataPath: string;
+  renditionPaths: string[];
+  versionFiles: Array<{ path: string; key: string }>;  // Versioned copies written by this change
+}
+
+/**
+ * Storage key of a token's history record, relative to the output directory
+ */
+export function getHistoryKey(tokenId: number): string {
+  return `${HISTORY_FOLDER}/${tokenId}.json`;
+}
+
+/**
+ * Read the version history of a token, or null when it was never re-rolled or frozen
+ */
+export async function loadTokenHistory(outputDir: string, tokenId: number): Promise<TokenHistory | null> {
+  const historyPath = path.join(outputDir, getHistoryKey(tokenId));
+
+  if (!(await fs.pathExists(historyPath))) {
+    return null;
+  }
+
+  return fs.readJson(historyPath);
+}
+
+/**
+ * Throw when a token may not change anymore - frozen tokens are permanent and published provenance covers the first tokens
+ *
+ * @param action - What is refused, e.g. "re-rolled"
+ */
+export async function assertTokenWritable(outputDir: string, tokenId: number, action: string): Promise<void> {
+  if ((await loadTokenHistory(outputDir, tokenId))?.frozen) {
+    throw new Error(`Token #${tokenId} is frozen and cannot be ${action}`);
+  }
+
+  const provenance = await loadProvenance(outputDir);
+  if (provenance && tokenId <= provenance.totalTokens) {
+    throw new Error(`Token #${tokenId} is covered by the published provenance and cannot be ${action}`);
+  }
+}
+
+/**
+ * Re-roll number of the token's current version, 0 when it was never re-rolled
+ */
+export async function getTokenRevision(outputDir: string, tokenId: number): Promise<number> {
+  const history = await loadTokenHistory(outputDir, tokenId);
+  return history?.versions.find(version => version.version === history.currentVersion)?.revision ?? 0;
+}
+
+/**
+ * Copy the current image, metadata, SVG and animation of a token to versioned keys
+ */
+async function archiveCurrentVersion(
+  outputDir: string,
+  tokenId: number,
+  version: number,
+  revision: number,
+  reason: string
+): Promise<{ version: TokenVersion; files: Array<{ path: string; key: string }> }> {
+  const imagePath = path.join(outputDir, 'images', `${tokenId}.png`);
+  const metadataPath = path.join(outputDir, 'metadata', `${tokenId}.json`);
+  const metadata: NFTMetadata = await fs.readJson(metadataPath);
+
+  const imageKey = `${HISTORY_FOLDER}/${tokenId}/v${version}.png`;
+  const metadataKey = `${HISTORY_FOLDER}/${tokenId}/v${version}.json`;
+  await fs.copy(imagePath, path.join(outputDir, imageKey));
+  await fs.copy(metadataPath, path.join(outputDir, metadataKey));
+
+  const animationFile = metadata.animation_url ? await findAnimationFile(outputDir, tokenId) : null;
+  const animationKey = animationFile ? `${HISTORY_FOLDER}/${tokenId}/v${version}${path.extname(animationFile)}` : undefined;
+  if (animationFile && animationKey) {
+    await fs.copy(animationFile, path.join(outputDir, animationKey));
+  }
+
+  const svgFile = path.join(outputDir, 'images', `${tokenId}.svg`);
+  const svgKey = metadata.image.endsWith('.svg') && await fs.pathExists(svgFile) ? `${HISTORY_FOLDER}/${tokenId}/v${version}.svg` : undefined;
+  if (svgKey) {
+    await fs.copy(svgFile, path.join(outputDir, svgKey));
+  }
+
+  return {
+    version: {
+      version,
+      revision,
+      reason,
+      createdAt: metadata.timestamp,
+      dna: metadata.dna,
+      imageKey,
+      metadataKey,
+      ...(animationKey ? { animationKey } : {}),
+      ...(svgKey ? { svgKey } : {})
+    },
+    files: [imageKey, metadataKey, ...(animationKey ? [animationKey] : []), ...(svgKey ? [svgKey] : [])]
+      .map(key => ({ path: path.join(outputDir, key), key }))
+  };
+}
+
+/**
+ * Persist the history record of a token
+ */
+async function saveTokenHistory(outputDir: string, history: TokenHistory): Promise<string> {
+  const historyPath = path.join(outputDir, getHistoryKey(history.tokenId));
+  await fs.ensureDir(path.dirname(historyPath));
+  await fs.writeJson(historyPath, history, { spaces: 2 });
+  return historyPath;
+}
+
+/**
+ * Start the history of a token that has none yet, keeping its original render as version 1
+ */
+async function initTokenHistory(
+  outputDir: string,
+  tokenId: number
+): Promise<{ history: TokenHistory; files: Array<{ path: string; key: string }> }> {
+  const existing = await loadTokenHistory(outputDir, tokenId);
+  if (existing) {
+    return { history: existing, files: [] };
+  }
+
+  if (!(await fs.pathExists(path.join(outputDir, 'metadata', `${tokenId}.json`)))) {
+    throw new Error(`Token #${tokenId} has not been generated yet`);
+  }
+
+  const original = await archiveCurrentVersion(outputDir, tokenId, 1, 0, 'Original generation');
+  return {
+    history: { tokenId, currentVersion: 1, frozen: false, versions: [original.version], events: [] },
+    files: original.files
+  };
+}
+
+/**
+ * Regenerate a token with a fresh roll, keeping every previous version
+ *
+ * The new version is rolled from the collection seed and the re-roll number, so it can still be verified.
+ */
+export async function rerollToken(tokenId: number, config: NFTConfig, reason: string): Promise<TokenHistoryChange> {
+  if (!reason.trim()) {
+    throw new Error('A reason is required to re-roll a token');
+  }
+  if (getOneOfOne(config, tokenId)?.imageFile) {
+    throw new Error(`Token #${tokenId} is a hand-made one-of-one and cannot be re-rolled`);
+  }
+
+  await assertTokenWritable(config.outputDir, tokenId, 're-rolled');
+  const { history, files } = await initTokenHistory(config.outputDir, tokenId);
+
+  const version = Math.max(...history.versions.map(existing => existing.version)) + 1;
+  let revision = Math.max(...history.versions.map(existing => existing.revision)) + 1;
+
+  // A roll that lands on the current combination changes nothing, so the next re-roll number is used instead
+  const registry = loadDNARegistry(config);
+  const currentDna = Object.keys(registry).find(dna => registry[dna] === tokenId);
+  const firstRevision = revision;
+  let combination = createUniqueCombination(config, tokenId, registry, createTokenRandom(config, tokenId, revision));
+  while (combination.dna === currentDna) {
+    if (++revision - firstRevision >= MAX_REROLL_REVISIONS) {
+      throw new Error(`No combination other than the current one found for token #${tokenId} after ${MAX_REROLL_REVISIONS} re-rolls`);
+    }
+    combination = createUniqueCombination(config, tokenId, registry, createTokenRandom(config, tokenId, revision));
+  }
+
+  // The checked combination is rendered as is, without a seed a second roll would land somewhere else
+  const generated = await generateNFT(tokenId, config, { combination, revision });
+  saveDNARegistry(config.outputDir, registerDNA(registry, combination.dna, tokenId));
+  const archived = await archiveCurrentVersion(config.outputDir, tokenId, version, revision, reason);
+
+  history.versions.push(archived.version);
+  history.currentVersion = version;
+  history.events.push({ action: 'reroll', version, reason, timestamp: new Date().toISOString() });
+  const historyPath = await saveTokenHistory(config.outputDir, history);
+
+  console.log(`Re-rolled NFT #${tokenId} as version ${version}: ${reason}`);
+
+  return {
+    history,
+    historyPath,
+    imagePath: generated.imagePath,
+    metadataPath: generated.metadataPath,
+    renditionPaths: generated.renditionPaths,
+    versionFiles: [...files, ...archived.files]
+  };
+}
+
+/**
+ * Make an earlier version of a token current again
+ */
+export async function rollbackToken(
+  tokenId: number,
+  config: NFTConfig,
+  version: number,
+  reason: string
+): Promise<TokenHistoryChange> {
+  const history = await loadTokenHistory(config.outputDir, tokenId);
+  if (!history) {
+    throw new Error(`Token #${tokenId} has no version history`);
+  }
+  await assertTokenWritable(config.outputDir, tokenId, 'rolled back');
+
+  const target = history.versions.find(existing => existing.version === version);
+  if (!target) {
+    throw new Error(`Token #${tokenId} has no version ${version}`);
+  }
+  if (version === history.currentVersion) {
+    throw new Error(`Version ${version} is already the current version of token #${tokenId}`);
+  }
+
+  // Another token may have claimed the combination since this version was replaced
+  const registry = loadDNARegistry(config);
+  if (config.uniqueDNA && target.dna && isDNATaken(registry, target.dna, tokenId)) {
+    throw new Error(`The combination of version ${version} now belongs to token #${registry[target.dna]}`);
+  }
+
+  const imagePath = path.join(config.outputDir, 'images', `${tokenId}.png`);
+  const metadataPath = path.join(config.outputDir, 'metadata', `${tokenId}.json`);
+  await fs.copy(path.join(config.outputDir, target.imageKey), imagePath);
+  await fs.copy(path.join(config.outputDir, target.metadataKey), metadataPath);
+
+  // The version being replaced may have an animation or SVG the restored one doesn't
+  const currentAnimation = await findAnimationFile(config.outputDir, tokenId);
+  if (currentAnimation) {
+    await fs.remove(currentAnimation);
+  }
+  await fs.remove(path.join(config.outputDir, 'images', `${tokenId}.svg`));
+
+  const animationPath = target.animationKey
+    ? path.join(config.outputDir, 'images', ANIMATION_FOLDER, `${tokenId}${path.extname(target.animationKey)}`)
+    : null;
+  if (target.animationKey && animationPath) {
+    await fs.copy(path.join(config.outputDir, target.animationKey), animationPath);
+  }
+
+  const svgPath = target.svgKey ? path.join(config.outputDir, 'images', `${tokenId}.svg`) : null;
+  if (target.svgKey && svgPath) {
+    await fs.copy(path.join(config.outputDir, target.svgKey), svgPath);
+  }
+
+  // Renditions and translations aren't versioned, they are rebuilt from the restored image and metadata
+  writeLocalizedMetadata(config, tokenId, await fs.readJson(metadataPath), path.dirname(metadataPath));
+  const renditions = await createRenditions(await fs.readFile(imagePath), tokenId, config.outputDir, config.renditions || []);
+
+  if (target.dna) {
+    saveDNARegistry(config.outputDir, registerDNA(registry, target.dna, tokenId));
+  }
+
+  history.currentVersion = version;
+  history.events.push({ action: 'rollback', version, reason, timestamp: new Date().toISOString() });
+  const historyPath = await saveTokenHistory(config.outputDir, history);
+
+  console.log(`Rolled NFT #${tokenId} back to version ${version}: ${reason}`);
+
+  return {
+    history,
+    historyPath,
+    imagePath,
+    metadataPath,
+    renditionPaths: [
+      ...renditions.map(rendition => rendition.path),
+      ...(animationPath ? [animationPath] : []),
+      ...(svgPath ? [svgPath] : [])
+    ],
+    versionFiles: []
+  };
+}
+
+/**
+ * Mark a token as permanent, blocking any further re-roll or rollback
+ */
+export async function freezeToken(
+  tokenId: number,
+  config: NFTConfig,
+  reason: string
+): Promise<{ history: TokenHistory; historyPath: string; versionFiles: Array<{ path: string; key: string }> }> {
+  const { history, files } = await initTokenHistory(config.outputDir, tokenId);
+  if (history.frozen) {
+    throw new Error(`Token #${tokenId} is already frozen`);
+  }
+
+  history.frozen = true;
+  history.events.push({ action: 'freeze', version: history.currentVersion, reason, timestamp: new Date().toISOString() });
+  const historyPath = await saveTokenHistory(config.outputDir, history);
+
+  return { history, historyPath, versionFiles: files };
+}
@@ -0,0 +1,125 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getImagesForLayer, NFTConfig, NFTMetadata } from './nftGenerator';
+
+// One row of the distribution report - a single trait within a layer
+export interface TraitDistributionRow {
+  trait: string;
+  weight: number;
+  expectedPercent: number;
+  expectedCount: number;
+  actualCount: number;
+  actualPercent: number;
+}
+
+export interface LayerDistribution {
+  layer: string;
+  traits: TraitDistributionRow[];
+}
+
+export interface DistributionReport {
+  collectionName: string;
+  totalTokens: number;
+  layers: LayerDistribution[];
+  generatedAt: string;
+}
+
+/**
+ * Get the expected probability of every trait in every layer, based on the trait weights
+ */
+export function getExpectedDistribution(config: NFTConfig): Record<string, Record<string, { weight: number; probability: number }>> {
+  const expected: Record<string, Record<string, { weight: number; probability: number }>> = {};
+
+  for (const layer of config.layers) {
+    const images = getImagesForLayer(layer);
+    const totalWeight = images.reduce((sum, image) => sum + image.weight, 0);
+
+    expected[layer.name] = {};
+    for (const image of images) {
+      expected[layer.name][image.trait] = {
+        weight: image.weight,
+        // Zero total weight means the picker falls back to a uniform choice
+        probability: totalWeight > 0 ? image.weight / totalWeight : 1 / images.length
+      };
+    }
+  }
+
+  return expected;
+}
+
+/**
+ * Read all generated metadata files from the collection output directory
+ */
+async function readGeneratedMetadata(outputDir: string): Promise<NFTMetadata[]> {
+  const metadataDir = path.join(outputDir, 'metadata');
+
+  if (!(await fs.pathExists(metadataDir))) {
+    return [];
+  }
+
+  const files = (await fs.readdir(metadataDir)).filter(file => file.endsWith('.json'));
+  const metadata: NFTMetadata[] = [];
+
+  for (const file of files) {
+    try {
+      metadata.push(await fs.readJson(path.join(metadataDir, file)));
+    } catch (error) {
+      console.warn(`Skipping unreadable metadata file ${file}:`, error);
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Compare the expected trait distribution with what was actually generated for a collection
+ */
+export async function getDistributionReport(config: NFTConfig): Promise<DistributionReport> {
+  const expected = getExpectedDistribution(config);
+  const metadata = await readGeneratedMetadata(config.outputDir);
+  const totalTokens = metadata.length;
+
+  // Count how often each trait shows up per layer
+  const actual: Record<string, Record<string, number>> = {};
+  for (const token of metadata) {
+    for (const attribute of token.attributes || []) {
+      if (!actual[attribute.trait_type]) {
+        actual[attribute.trait_type] = {};
+      }
+      const value = String(attribute.value);
+      actual[attribute.trait_type][value] = (actual[attribute.trait_type][value] || 0) + 1;
+    }
+  }
+
+  const layers = config.layers.map(layer => {
+    const expectedTraits = expected[layer.name] || {};
+    // Linked layers aren't written to the metadata, they always carry the trait of their source layer
+    const actualTraits = actual[layer.linkedTo || layer.name] || {};
+
+    // Include traits that were generated but no longer have an asset
+    const traitNames = Array.from(new Set([...Object.keys(expectedTraits), ...Object.keys(actualTraits)]));
+
+    const traits = traitNames.map(trait => {
+      const probability = expectedTraits[trait]?.probability ?? 0;
+      const actualCount = actualTraits[trait] || 0;
+
+      return {
+        trait,
+        weight: expectedTraits[trait]?.weight ?? 0,
+        expectedPercent: probability * 100,
+        expectedCount: probability * totalTokens,
+        actualCount,
+        actualPercent: totalTokens > 0 ? (actualCount / totalTokens) * 100 : 0
+      };
+    });
+
+    return { layer: layer.name, traits };
+  });
+
+  return {
+    collectionName: config.collectionName,
+    totalTokens,
+    layers,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,247 @@
+import type { LayerAttribute, LayerConfig } from './nftGenerator';
+
+// Reference to a single trait of a layer, e.g. { layer: "Background", trait: "rare" }
+export interface TraitRef {
+  layer: string;
+  trait: string;
+}
+
+// Declarative compatibility rules between traits
+export interface TraitRules {
+  incompatible?: Array<[TraitRef, TraitRef]>;  // These two traits never appear together
+  requires?: Array<{ trait: TraitRef; with: TraitRef }>;  // "trait" only appears together with "with" - list both directions for a forced pairing
+  conditionalLayers?: Array<{ layer: string; when: TraitRef[] }>;  // Layer is only drawn when one of the "when" traits was picked
+}
+
+// Stop enumerating combinations after this many steps, the trait space is then reported as its upper bound
+const MAX_ENUMERATION_STEPS = 1000000;
+
+function isSameTrait(ref: TraitRef, attr: LayerAttribute): boolean {
+  return ref.layer === attr.name && ref.trait === attr.trait;
+}
+
+function hasTrait(combination: LayerAttribute[], ref: TraitRef): boolean {
+  return combination.some(attr => isSameTrait(ref, attr));
+}
+
+function describe(ref: TraitRef): string {
+  return `${ref.layer} "${ref.trait}"`;
+}
+
+/**
+ * Check whether a conditional layer should be drawn for the traits picked so far
+ */
+export function isLayerActive(rules: TraitRules, layerName: string, chosen: LayerAttribute[]): boolean {
+  const conditions = (rules.conditionalLayers || []).filter(condition => condition.layer === layerName);
+
+  // Unconditional layers are always drawn
+  if (conditions.length === 0) {
+    return true;
+  }
+
+  return conditions.some(condition => condition.when.some(ref => hasTrait(chosen, ref)));
+}
+
+/**
+ * Filter the images of a layer down to those allowed next to the traits already picked
+ *
+ * @param decidedLayers - Layers that were already processed, including skipped ones
+ */
+export function getAllowedImages(
+  rules: TraitRules,
+  images: LayerAttribute[],
+  chosen: LayerAttribute[],
+  decidedLayers: Set<string>
+): LayerAttribute[] {
+  return images.filter(candidate => {
+    for (const [a, b] of rules.incompatible || []) {
+      if ((isSameTrait(a, candidate) && hasTrait(chosen, b)) || (isSameTrait(b, candidate) && hasTrait(chosen, a))) {
+        return false;
+      }
+    }
+
+    for (const rule of rules.requires || []) {
+      // A trait picked earlier forces a specific trait in this layer
+      if (rule.with.layer === candidate.name && rule.with.trait !== candidate.trait && hasTrait(chosen, rule.trait)) {
+        return false;
+      }
+
+      // The candidate needs a companion in a layer that was already decided without it
+      if (isSameTrait(rule.trait, candidate) && decidedLayers.has(rule.with.layer) && !hasTrait(chosen, rule.with)) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * List every rule a finished combination breaks
+ */
+export function findRuleViolations(rules: TraitRules, combination: LayerAttribute[]): string[] {
+  const violations: string[] = [];
+
+  for (const [a, b] of rules.incompatible || []) {
+    if (hasTrait(combination, a) && hasTrait(combination, b)) {
+      violations.push(`${describe(a)} cannot be combined with ${describe(b)}`);
+    }
+  }
+
+  for (const rule of rules.requires || []) {
+    if (hasTrait(combination, rule.trait) && !hasTrait(combination, rule.with)) {
+      violations.push(`${describe(rule.trait)} requires ${describe(rule.with)}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Only traits with a positive weight can be picked, unless every trait in the layer is zero-weight
+ */
+function getPickableImages(images: LayerAttribute[]): LayerAttribute[] {
+  const weighted = images.filter(image => image.weight > 0);
+  return weighted.length > 0 ? weighted : images;
+}
+
+/**
+ * Count the combinations that satisfy the rules, or null when there are too many to enumerate
+ *
+ * @param stopAfter - Stop counting once this many valid combinations were found
+ */
+export function countValidCombinations(
+  layers: LayerConfig[],
+  imagesByLayer: Record<string, LayerAttribute[]>,
+  rules: TraitRules,
+  stopAfter: number = Infinity
+): number | null {
+  let count = 0;
+  let steps = 0;
+
+  const visit = (index: number, chosen: LayerAttribute[], decided: Set<string>): boolean => {
+    if (++steps > MAX_ENUMERATION_STEPS) {
+      return false;
+    }
+
+    if (index === layers.length) {
+      if (findRuleViolations(rules, chosen).length === 0) {
+        count++;
+      }
+      return count < stopAfter;
+    }
+
+    const layer = layers[index];
+    const images = imagesByLayer[layer.name] || [];
+    const nextDecided = new Set(decided).add(layer.name);
+
+    // Empty and inactive conditional layers are skipped, exactly like during generation
+    if (images.length === 0 || !isLayerActive(rules, layer.name, chosen)) {
+      return visit(index + 1, chosen, nextDecided);
+    }
+
+    // Linked layers have exactly one option - the trait matching their source layer
+    if (layer.linkedTo) {
+      const source = chosen.find(attr => attr.name === layer.linkedTo);
+      const linked = source && images.find(image => image.trait === source.trait);
+      if (linked) {
+        return visit(index + 1, [...chosen, linked], nextDecided);
+      }
+      return layer.required ? true : visit(index + 1, chosen, nextDecided);
+    }
+
+    const allowed = getAllowedImages(rules, getPickableImages(images), chosen, decided);
+    if (allowed.length === 0) {
+      // Optional layers can be left out, required ones make this branch a dead end
+      return layer.required ? true : visit(index + 1, chosen, nextDecided);
+    }
+
+    for (const image of allowed) {
+      if (!visit(index + 1, [...chosen, image], nextDecided)) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  visit(0, [], new Set());
+
+  // Ran out of steps before the whole space (or the requested number) was seen
+  if (steps > MAX_ENUMERATION_STEPS && count < stopAfter) {
+    return null;
+  }
+
+  return count;
+}
+
+/**
+ * Validate the rules against the layers and their assets, returning readable errors
+ */
+export function validateTraitRules(
+  layers: LayerConfig[],
+  imagesByLayer: Record<string, LayerAttribute[]>,
+  rules: TraitRules
+): string[] {
+  const errors: string[] = [];
+  const layerIndex = new Map(layers.map((layer, index) => [layer.name, index]));
+
+  const checkRef = (ref: TraitRef, context: string) => {
+    if (!layerIndex.has(ref.layer)) {
+      errors.push(`${context}: unknown layer "${ref.layer}"`);
+    } else if (!(imagesByLayer[ref.layer] || []).some(image => image.trait === ref.trait)) {
+      errors.push(`${context}: layer "${ref.layer}" has no trait "${ref.trait}"`);
+    }
+  };
+
+  (rules.incompatible || []).forEach(([a, b], index) => {
+    checkRef(a, `incompatible[${index}]`);
+    checkRef(b, `incompatible[${index}]`);
+    if (a.layer === b.layer) {
+      errors.push(`incompatible[${index}]: ${describe(a)} and ${describe(b)} are in the same layer and can never be combined anyway`);
+    }
+  });
+
+  (rules.requires || []).forEach((rule, index) => {
+    checkRef(rule.trait, `requires[${index}]`);
+    checkRef(rule.with, `requires[${index}]`);
+    if (rule.trait.layer === rule.with.layer && rule.trait.trait !== rule.with.trait) {
+      errors.push(`requires[${index}]: ${describe(rule.trait)} can never appear together with ${describe(rule.with)} from the same layer`);
+    }
+
+    const contradiction = (rules.incompatible || []).some(([a, b]) =>
+      (a.layer === rule.trait.layer && a.trait === rule.trait.trait && b.layer === rule.with.layer && b.trait === rule.with.trait) ||
+      (b.layer === rule.trait.layer && b.trait === rule.trait.trait && a.layer === rule.with.layer && a.trait === rule.with.trait)
+    );
+    if (contradiction) {
+      errors.push(`requires[${index}]: ${describe(rule.trait)} both requires and is incompatible with ${describe(rule.with)}`);
+    }
+  });
+
+  (rules.conditionalLayers || []).forEach((condition, index) => {
+    const conditionalIndex = layerIndex.get(condition.layer);
+    if (conditionalIndex === undefined) {
+      errors.push(`conditionalLayers[${index}]: unknown layer "${condition.layer}"`);
+      return;
+    }
+
+    if (layers[conditionalIndex].required) {
+      errors.push(`conditionalLayers[${index}]: layer "${condition.layer}" is required and cannot be conditional`);
+    }
+
+    condition.when.forEach(ref => {
+      checkRef(ref, `conditionalLayers[${index}]`);
+      // Layers are picked in order, so the condition must be decided before the conditional layer
+      const refIndex = layerIndex.get(ref.layer);
+      if (refIndex !== undefined && refIndex >= conditionalIndex) {
+        errors.push(`conditionalLayers[${index}]: layer "${condition.layer}" depends on "${ref.layer}", which must come before it`);
+      }
+    });
+  });
+
+  // Only check feasibility when the references themselves are sound
+  if (errors.length === 0 && countValidCombinations(layers, imagesByLayer, rules, 1) === 0) {
+    errors.push('No trait combination satisfies all rules - generation would be impossible');
+  }
+
+  return errors;
+}
@@ -0,0 +1,135 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+import { buildAttributes, NFTConfig, NFTMetadata, renderNFT } from './nftGenerator';
+import { RARITY_RANK_TRAIT, RARITY_SCORE_TRAIT } from './rarity';
+import { loadDNARegistry } from './dnaRegistry';
+import { getOneOfOne, loadOneOfOneImage } from './oneOfOnes';
+import { getTokenRevision } from './tokenHistory';
+import { stripEmbeddedMetadata } from './pngMetadata';
+
+export interface VerificationResult {
+  tokenId: number;
+  matches: boolean;
+  method: 'bytes' | 'pixels';
+  mismatchedPixels?: number;
+  totalPixels?: number;
+  message: string;
+}
+
+/**
+ * Compare two images pixel by pixel, returning the number of differing pixels
+ */
+async function comparePixels(expected: Buffer, actual: Buffer): Promise<{ mismatchedPixels: number; totalPixels: number } | null> {
+  const [a, b] = await Promise.all([
+    sharp(expected).ensureAlpha().raw().toBuffer({ resolveWithObject: true }),
+    sharp(actual).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  ]);
+
+  // Different dimensions can't be compared pixel-wise
+  if (a.info.width !== b.info.width || a.info.height !== b.info.height) {
+    return null;
+  }
+
+  const totalPixels = a.info.width * a.info.height;
+  let mismatchedPixels = 0;
+
+  for (let offset = 0; offset < a.data.length; offset += 4) {
+    if (
+      a.data[offset] !== b.data[offset] ||
+      a.data[offset + 1] !== b.data[offset + 1] ||
+      a.data[offset + 2] !== b.data[offset + 2] ||
+      a.data[offset + 3] !== b.data[offset + 3]
+    ) {
+      mismatchedPixels++;
+    }
+  }
+
+  return { mismatchedPixels, totalPixels };
+}
+
+/**
+ * Re-render a token from the collection seed and compare it against the stored PNG
+ *
+ * @param storedImage - The stored image to compare against, defaults to the local images/<tokenId>.png
+ */
+export async function verifyNFT(tokenId: number, config: NFTConfig, storedImage?: Buffer): Promise<VerificationResult> {
+  if (!config.seed) {
+    throw new Error(`Collection "${config.collectionName}" has no seed, so its tokens cannot be re-rendered`);
+  }
+
+  // The stored metadata holds the timestamp that was stamped onto the image
+  const metadataPath = path.join(config.outputDir, 'metadata', `${tokenId}.json`);
+  if (!(await fs.pathExists(metadataPath))) {
+    throw new Error(`No metadata found for token #${tokenId} at ${metadataPath}`);
+  }
+  const metadata: NFTMetadata = await fs.readJson(metadataPath);
+
+  // The embedded metadata chunks are added after rendering, so they are left out of the comparison
+  const original = stripEmbeddedMetadata(storedImage ?? await fs.readFile(path.join(config.outputDir, 'images', `${tokenId}.png`)));
+  const oneOfOne = getOneOfOne(config, tokenId);
+  let expected: Buffer;
+
+  if (oneOfOne?.imageFile) {
+    // Hand-made artwork is compared against its source file
+    expected = await loadOneOfOneImage(oneOfOne, config.width, config.height);
+  } else {
+    // Collisions are re-rolled against the registry, so it must be passed to get the same combination
+    // Re-rolled tokens are rendered from their re-roll number
+    const rendered = await renderNFT(tokenId, config, {
+      timestamp: metadata.timestamp,
+      registry: loadDNARegistry(config),
+      revision: await getTokenRevision(config.outputDir, tokenId)
+    });
+
+    // The seed must reproduce the traits recorded in the metadata, otherwise the config has changed -
+    // one-of-ones with generated art add hand-authored traits and their own rarity, so only their image is checked
+    const renderedTraits = buildAttributes(config, rendered.attributes, rendered.stats).map(attr => `${attr.trait_type}:${attr.value}`).join('|');
+    // Rarity attributes are written back after generation, so they are not part of the render
+    const storedTraits = metadata.attributes
+      .filter(attr => attr.trait_type !== RARITY_SCORE_TRAIT && attr.trait_type !== RARITY_RANK_TRAIT)
+      .map(attr => `${attr.trait_type}:${attr.value}`)
+      .join('|');
+    if (!oneOfOne && renderedTraits !== storedTraits) {
+      return {
+        tokenId,
+        matches: false,
+        method: 'bytes',
+        message: `Trait mismatch for token #${tokenId}: stored ${storedTraits}, re-rendered ${renderedTraits}`
+      };
+    }
+
+    expected = rendered.buffer;
+  }
+
+  if (expected.equals(original)) {
+    return {
+      tokenId,
+      matches: true,
+      method: 'bytes',
+      message: `Token #${tokenId} re-rendered byte-for-byte identical`
+    };
+  }
+
+  // PNG encoders may differ between versions, so fall back to comparing the decoded pixels
+  const comparison = await comparePixels(original, expected);
+  if (!comparison) {
+    return {
+      tokenId,
+      matches: false,
+      method: 'pixels',
+      message: `Token #${tokenId} re-rendered with different dimensions than the stored image`
+    };
+  }
+
+  const matches = comparison.mismatchedPixels === 0;
+  return {
+    tokenId,
+    matches,
+    method: 'pixels',
+    ...comparison,
+    message: matches
+      ? `Token #${tokenId} re-rendered pixel-identical (PNG bytes differ)`
+      : `Token #${tokenId} differs in ${comparison.mismatchedPixels} of ${comparison.totalPixels} pixels`
+  };
+}